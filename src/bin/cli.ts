@@ -2,13 +2,24 @@
 
 import { Command } from 'commander';
 import path from 'node:path';
+import { readFileSync } from 'node:fs';
 import chalk from 'chalk';
 import { runPipeline } from '../pipeline.js';
-import type { TextbookConfig } from '../types.js';
+import { loadContextFromOutput, regenerate, REGENERATE_TARGETS, type RegenerateTarget } from '../regenerate.js';
+import { PROVIDER_NAMES } from '../providers/index.js';
+import { GRAPH_REPAIR_MODES } from '../graph/validate.js';
+import { loadState } from '../state.js';
+import { findLearningPath } from '../graph/path.js';
+import { loadQuizzes } from '../quiz/load.js';
+import { exportQuizzes, QUIZ_FORMATS, type QuizFormat } from '../quiz/export.js';
+import { QUIZ_STYLES } from '../quiz/widget.js';
+import { parseSimEngines, SIM_ENGINES } from '../microsim/engines.js';
+import type { TextbookConfig, ProviderName, ModelPrice, SimEngine } from '../types.js';
 
 const program = new Command();
 
 program
+  .enablePositionalOptions()
   .name('create-intelligent-textbook')
   .description('Generate complete intelligent textbooks from any topic — powered by Claude')
   .version('1.0.0')
@@ -17,28 +28,75 @@ program
   .option('-m, --microsims <number>', 'Number of interactive MicroSims', '5')
   .option('-n, --concepts <number>', 'Number of concepts in learning graph', '200')
   .option('-o, --output <dir>', 'Output directory', '')
-  .option('--model <model>', 'Claude model to use', 'claude-sonnet-4-5')
+  .option('--model <model>', 'Model to use (default: claude-sonnet-4-5; required with --provider openai)')
   .option('--deploy <target>', 'Deployment target (github-pages, none)', 'none')
   .option('--repo <name>', 'GitHub repository name for deployment')
+  .option('--provider <name>', `LLM provider (${PROVIDER_NAMES.join(', ')})`, 'anthropic')
+  .option('--base-url <url>', 'Base URL for the OpenAI-compatible provider (e.g., http://localhost:11434/v1)')
+  .option('--graph-repair <mode>', 'Fix learning-graph violations automatically (auto) or re-prompt first (reprompt)', 'auto')
+  .option('--offline-microsims', 'Bundle MicroSim libraries into docs/microsims/lib/ so MicroSims work without network access')
+  .option('--sim-engines <list>', `Comma-separated MicroSim engines to choose from (${SIM_ENGINES.join(', ')})`, SIM_ENGINES.join(','))
+  .option('--chapter-retries <number>', 'Extra attempts for chapters that fail the quality gate', '2')
+  .option('--quiz-style <style>', 'Quiz pages with collapsible answers (static) or a self-scoring widget (interactive)', 'static')
+  .option('--concurrency <number>', 'Maximum LLM requests in flight at once', '4')
+  .option('--max-retries <number>', 'Retries per request on rate-limit, overload and network errors', '5')
+  .option('--timeout <seconds>', 'Per-request timeout in seconds', '600')
+  .option('--cache', 'Reuse cached responses for identical prompts instead of calling the model again')
+  .option('--no-cache', 'Always call the model, without reading or writing the response cache (default)')
+  .option('--cache-dir <dir>', 'Response cache location; implies --cache (default: <output>/.cache/llm)')
+  .option('--prices <file>', 'JSON price table: { "<model>": { "input": usdPerMTok, "output": usdPerMTok } }')
+  .option('--record <dir>', 'Record every LLM call to a cassette directory')
+  .option('--replay <dir>', 'Replay LLM responses from a cassette directory (no API calls)')
+  .option('--resume', 'Resume an interrupted run from the state file in the output directory')
+  .option('--from-step <name>', 'Re-run from this step onward using saved state (e.g., chapter-content)')
   .action(async (topic: string, opts) => {
     const outputDir = opts.output || path.resolve(process.cwd(), slugify(topic));
 
+    // When resuming, options left at their defaults take the saved run's values
+    // so a bare --resume continues the same book rather than a 12-chapter default.
+    const saved = opts.resume || opts.fromStep ? (await loadState(outputDir))?.config : undefined;
+    const pick = <K extends keyof TextbookConfig>(key: K, option: string, value: TextbookConfig[K]) =>
+      saved && program.getOptionValueSource(option) === 'default' ? saved[key] : value;
+
     const config: TextbookConfig = {
       topic,
-      chapters: parseInt(opts.chapters, 10),
-      microsims: parseInt(opts.microsims, 10),
-      concepts: parseInt(opts.concepts, 10),
+      chapters: pick('chapters', 'chapters', parseInt(opts.chapters, 10)),
+      microsims: pick('microsims', 'microsims', parseInt(opts.microsims, 10)),
+      concepts: pick('concepts', 'concepts', parseInt(opts.concepts, 10)),
       outputDir,
-      model: opts.model,
-      deploy: opts.deploy as 'github-pages' | 'none',
-      repoName: opts.repo,
+      model: opts.model ?? saved?.model,
+      deploy: pick('deploy', 'deploy', opts.deploy as 'github-pages' | 'none'),
+      repoName: opts.repo ?? saved?.repoName,
+      provider: pick('provider', 'provider', opts.provider as ProviderName),
+      baseUrl: opts.baseUrl ?? saved?.baseUrl,
+      graphRepair: readChoice(opts.graphRepair, '--graph-repair', GRAPH_REPAIR_MODES),
+      offlineMicrosims: opts.offlineMicrosims ?? saved?.offlineMicrosims,
+      simEngines: pick('simEngines', 'simEngines', readSimEngines(opts.simEngines)),
+      chapterRetries: pick(
+        'chapterRetries',
+        'chapterRetries',
+        readNumber(opts.chapterRetries, '--chapter-retries', { min: 0, integer: true })
+      ),
+      quizStyle: pick('quizStyle', 'quizStyle', readChoice(opts.quizStyle, '--quiz-style', QUIZ_STYLES)),
+      concurrency: readNumber(opts.concurrency, '--concurrency', { min: 1, integer: true }),
+      maxRetries: readNumber(opts.maxRetries, '--max-retries', { min: 0, integer: true }),
+      requestTimeoutMs: readNumber(opts.timeout, '--timeout', { min: 1 }) * 1000,
+      // --cache-dir on its own turns the cache on
+      cache: opts.cache ?? Boolean(opts.cacheDir),
+      cacheDir: opts.cacheDir,
+      prices: opts.prices ? readPrices(opts.prices) : saved?.prices,
+      record: opts.record,
+      replay: opts.replay,
+      resume: Boolean(opts.resume),
+      fromStep: opts.fromStep,
     };
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      console.error(chalk.red('\n  Error: ANTHROPIC_API_KEY environment variable is required.\n'));
-      console.error(chalk.gray('  Set it with: export ANTHROPIC_API_KEY="your-key"\n'));
+    if (opts.cache === false && opts.cacheDir) {
+      console.error(chalk.red('\n  Error: --cache-dir cannot be combined with --no-cache.\n'));
       process.exit(1);
     }
+    config.model = requireModel(config.model, config.provider);
+    requireApiKey(config);
 
     try {
       await runPipeline(config);
@@ -49,6 +107,191 @@ program
     }
   });
 
+program
+  .command('regenerate')
+  .description('Regenerate a single artifact of an existing textbook')
+  .argument('<artifact>', `What to regenerate (${REGENERATE_TARGETS.join(', ')})`)
+  .argument('[number]', 'Chapter, quiz or MicroSim number')
+  .option('-o, --output <dir>', 'Textbook output directory', '.')
+  .option('--model <model>', 'Model to use (defaults to the one the book was generated with; required with --provider openai)')
+  .option('--provider <name>', `LLM provider (${PROVIDER_NAMES.join(', ')})`)
+  .option('--base-url <url>', 'Base URL for the OpenAI-compatible provider')
+  .option('--concurrency <number>', 'Maximum LLM requests in flight at once')
+  .option('--max-retries <number>', 'Retries per request on rate-limit, overload and network errors')
+  .option('--timeout <seconds>', 'Per-request timeout in seconds')
+  .option('--record <dir>', 'Record every LLM call to a cassette directory')
+  .option('--replay <dir>', 'Replay LLM responses from a cassette directory (no API calls)')
+  .action(async (artifact: string, number: string | undefined, opts) => {
+    if (!REGENERATE_TARGETS.includes(artifact as RegenerateTarget)) {
+      console.error(chalk.red(`\n  Error: unknown artifact "${artifact}". Use one of: ${REGENERATE_TARGETS.join(', ')}\n`));
+      process.exit(1);
+    }
+
+    try {
+      const outputDir = path.resolve(opts.output);
+      const overrides: Partial<TextbookConfig> = {};
+      if (opts.model) overrides.model = opts.model;
+      if (opts.provider) overrides.provider = opts.provider as ProviderName;
+      // The saved model belongs to the saved provider, so switching to openai needs its own
+      if (opts.provider === 'openai') overrides.model = requireModel(opts.model, 'openai');
+      if (opts.baseUrl) overrides.baseUrl = opts.baseUrl;
+      if (opts.concurrency) overrides.concurrency = readNumber(opts.concurrency, '--concurrency', { min: 1, integer: true });
+      if (opts.maxRetries) overrides.maxRetries = readNumber(opts.maxRetries, '--max-retries', { min: 0, integer: true });
+      if (opts.timeout) overrides.requestTimeoutMs = readNumber(opts.timeout, '--timeout', { min: 1 }) * 1000;
+      // Regenerating exists to get a different answer, so never serve it from the cache
+      overrides.cache = false;
+      overrides.record = opts.record;
+      overrides.replay = opts.replay;
+
+      const ctx = await loadContextFromOutput(outputDir, overrides);
+      requireApiKey(ctx.config);
+      const label = number ? `${artifact} ${number}` : artifact;
+      console.log(chalk.gray(`\n  Regenerating ${label} in ${outputDir}...`));
+      await regenerate(ctx, artifact as RegenerateTarget, number ? parseInt(number, 10) : undefined);
+      console.log(chalk.green(`  Regenerated ${label}\n`));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Regenerate failed: ${msg}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('path')
+  .description('List the prerequisite concepts, in reading order, needed to reach a target concept')
+  .argument('<concept>', 'Target concept name, name fragment, or ID')
+  .option('-o, --output <dir>', 'Textbook output directory', '.')
+  .option('--json', 'Print the path as JSON')
+  .action(async (concept: string, opts) => {
+    try {
+      const ctx = await loadContextFromOutput(path.resolve(opts.output));
+      const concepts = ctx.concepts ?? [];
+      if (concepts.length === 0) throw new Error(`No learning graph found in ${opts.output}.`);
+
+      const { target, prerequisites, chapters } = findLearningPath(concepts, concept);
+      if (opts.json) {
+        console.log(JSON.stringify({ target, prerequisites, chapters }, null, 2));
+        return;
+      }
+
+      const titles = new Map((ctx.chapters ?? []).map(ch => [ch.number, ch.title]));
+      const chapterLabel = (n: number) => `Chapter ${n}${titles.has(n) ? `: ${titles.get(n)}` : ''}`;
+
+      console.log(chalk.bold(`\n  Learning path to ${target.id}. ${target.name}`) + chalk.gray(` (${chapterLabel(target.chapter)})`));
+      console.log(chalk.gray(`  ${prerequisites.length} prerequisite concept(s) across chapter(s) ${chapters.join(', ')}\n`));
+
+      for (const n of chapters) {
+        console.log(chalk.cyan(`  ${chapterLabel(n)}`));
+        for (const c of prerequisites.filter(p => p.chapter === n)) {
+          console.log(`    ${String(c.id).padStart(4)}. ${c.name}`);
+        }
+        if (n === target.chapter) console.log(chalk.green(`    ${String(target.id).padStart(4)}. ${target.name}  ← target`));
+      }
+      console.log();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Path failed: ${msg}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export')
+  .description('Export assessments of an existing textbook to LMS interchange formats')
+  .argument('<artifact>', 'What to export (quizzes)')
+  .option('-o, --output <dir>', 'Textbook output directory', '.')
+  .option('-f, --format <format>', `Export format (${QUIZ_FORMATS.join(', ')})`, 'qti')
+  .option('--dest <dir>', 'Where to write the files (default: <output>/exports/quizzes/<format>)')
+  .action(async (artifact: string, opts) => {
+    if (artifact !== 'quizzes') {
+      console.error(chalk.red(`\n  Error: unknown artifact "${artifact}". Only "quizzes" can be exported.\n`));
+      process.exit(1);
+    }
+    if (!QUIZ_FORMATS.includes(opts.format as QuizFormat)) {
+      console.error(chalk.red(`\n  Error: unknown format "${opts.format}". Use one of: ${QUIZ_FORMATS.join(', ')}\n`));
+      process.exit(1);
+    }
+
+    try {
+      const outputDir = path.resolve(opts.output);
+      const quizzes = await loadQuizzes(outputDir);
+      if (quizzes.length === 0) throw new Error(`No quizzes found in ${path.join(outputDir, 'docs', 'quizzes')}.`);
+
+      const ctx = await loadContextFromOutput(outputDir);
+      const title = ctx.courseDescription?.title || ctx.config.topic;
+      const destDir = path.resolve(opts.dest ?? path.join(outputDir, 'exports', 'quizzes', opts.format));
+      const written = await exportQuizzes(quizzes, opts.format as QuizFormat, destDir, title);
+
+      const questions = quizzes.reduce((sum, q) => sum + q.questions.length, 0);
+      console.log(chalk.green(`\n  Exported ${questions} questions from ${quizzes.length} quizzes as ${opts.format.toUpperCase()}`));
+      console.log(chalk.gray(`  ${written.length} files in ${destDir}\n`));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Export failed: ${msg}\n`));
+      process.exit(1);
+    }
+  });
+
+function requireApiKey(config: Pick<TextbookConfig, 'provider' | 'replay'>): void {
+  if (!config.replay && (config.provider ?? 'anthropic') === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+    console.error(chalk.red('\n  Error: ANTHROPIC_API_KEY environment variable is required.\n'));
+    console.error(chalk.gray('  Set it with: export ANTHROPIC_API_KEY="your-key"\n'));
+    process.exit(1);
+  }
+}
+
+/**
+ * The model to use: the given one, or claude-sonnet-4-5 for the providers that
+ * ignore or expect it. An OpenAI-compatible server has no model in common with
+ * Anthropic, so it needs --model.
+ */
+function requireModel(model: string | undefined, provider: ProviderName | undefined): string {
+  if (model) return model;
+  if (provider === 'openai') {
+    console.error(chalk.red('\n  Error: --model is required with --provider openai (e.g., --model llama3.1).\n'));
+    process.exit(1);
+  }
+  return 'claude-sonnet-4-5';
+}
+
+function readPrices(file: string): Record<string, ModelPrice> {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as Record<string, ModelPrice>;
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`\n  Error: could not read price table ${file}: ${msg}\n`));
+    process.exit(1);
+  }
+}
+
+function readNumber(value: string, option: string, { min, integer = false }: { min: number; integer?: boolean }): number {
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isFinite(n) || n < min || (integer && !Number.isInteger(n))) {
+    const kind = integer ? 'a whole number' : 'a number';
+    console.error(chalk.red(`\n  Error: ${option} must be ${kind} of at least ${min} (got "${value}").\n`));
+    process.exit(1);
+  }
+  return n;
+}
+
+function readChoice<T extends string>(value: string, option: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) {
+    console.error(chalk.red(`\n  Error: ${option} must be one of ${allowed.join(', ')} (got "${value}").\n`));
+    process.exit(1);
+  }
+  return value as T;
+}
+
+function readSimEngines(list: string): SimEngine[] {
+  try {
+    return parseSimEngines(list);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`\n  Error: ${msg}\n`));
+    process.exit(1);
+  }
+}
+
 function slugify(text: string): string {
   return text
     .toLowerCase()
@@ -0,0 +1,82 @@
+/** Target chapter length, in words. */
+export const CHAPTER_WORDS = { min: 3000, max: 5000 };
+
+export interface ContentStats {
+  words: number;
+  mermaidDiagrams: number;
+  tables: number;
+  admonitions: number;
+}
+
+export type WordTarget = 'below' | 'within' | 'above';
+
+/**
+ * Split markdown into prose lines and fenced blocks. Each fence is reported
+ * by its info string (e.g. "mermaid") so callers can count or skip it.
+ */
+function scan(markdown: string): { prose: string[]; fences: string[] } {
+  const prose: string[] = [];
+  const fences: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    const opener = trimmed.match(/^(`{3,}|~{3,})\s*([\w-]*)/);
+    if (fence) {
+      if (opener && opener[1][0] === fence[0] && opener[1].length >= fence.length && trimmed === opener[1]) fence = null;
+      continue;
+    }
+    if (opener) {
+      fence = opener[1];
+      fences.push(opener[2].toLowerCase());
+      continue;
+    }
+    prose.push(line);
+  }
+  return { prose, fences };
+}
+
+/**
+ * Words of prose, excluding fenced code, HTML tags, URLs, table separator rows
+ * and markdown syntax. Link text is counted, link targets are not.
+ */
+export function countWords(markdown: string): number {
+  const text = scan(markdown).prose
+    .filter(line => !(/^\s*\|?[\s:|-]+\|?\s*$/.test(line) && line.includes('-')))
+    .join('\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\]\([^)]*\)/g, ']')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/^\s*(!!!|\?\?\?\+?)\s+\w+/gm, ' ')
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/[*_~`[\]#>|]/g, ' ');
+  return text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+/**
+ * Count prose words, Mermaid diagrams, tables (a header row followed by a
+ * separator row) and admonitions (!!! and ??? blocks) in a markdown page.
+ */
+export function analyzeMarkdown(markdown: string): ContentStats {
+  const { prose, fences } = scan(markdown);
+
+  let tables = 0;
+  for (let i = 1; i < prose.length; i++) {
+    const separator = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(prose[i]);
+    if (separator && prose[i - 1].includes('|')) tables++;
+  }
+
+  return {
+    words: countWords(markdown),
+    mermaidDiagrams: fences.filter(f => f === 'mermaid').length,
+    tables,
+    admonitions: prose.filter(line => /^\s*(!!!|\?\?\?\+?)\s+\w+/.test(line)).length,
+  };
+}
+
+/** Where a word count falls against the chapter target. */
+export function wordTarget(words: number): WordTarget {
+  if (words < CHAPTER_WORDS.min) return 'below';
+  if (words > CHAPTER_WORDS.max) return 'above';
+  return 'within';
+}
@@ -0,0 +1,79 @@
+import type { ChapterOutline } from '../types.js';
+import { analyzeMarkdown, CHAPTER_WORDS, type ContentStats } from './analyze.js';
+
+export type ChapterCheck =
+  | 'header'
+  | 'objectives'
+  | 'mermaid'
+  | 'tables'
+  | 'takeaways'
+  | 'review-questions'
+  | 'word-count'
+  | 'truncated';
+
+export interface ChapterIssue {
+  check: ChapterCheck;
+  message: string;
+}
+
+/** Minimum Mermaid diagrams and tables per chapter, as asked for in the prompt. */
+export const CHAPTER_MINIMUMS = { mermaidDiagrams: 2, tables: 2 };
+
+/** A section heading (## or ###) or a bold lead-in line, matched by title. */
+function hasSection(markdown: string, title: RegExp): boolean {
+  return markdown.split('\n').some(line => {
+    const text = line.match(/^#{2,4}\s+(.+)$/)?.[1] ?? line.match(/^\*\*([^*]+)\*\*:?\s*$/)?.[1];
+    return text !== undefined && title.test(text);
+  });
+}
+
+/**
+ * Signs that a response was cut off mid-stream: an unclosed code fence, or a
+ * final paragraph line that stops without closing punctuation.
+ */
+export function looksTruncated(markdown: string): boolean {
+  const fences = markdown.match(/^\s*(```|~~~)/gm)?.length ?? 0;
+  if (fences % 2 === 1) return true;
+
+  const last = markdown.trimEnd().split('\n').pop()?.trim() ?? '';
+  if (last === '') return true;
+  if (/[,;:(\-–—]$/.test(last)) return true;
+  // Lists, tables, headings, quotes and admonition bodies may end without punctuation
+  if (/^([-*+]\s|\d+[.)]\s|\||#|>|!!!|\?\?\?)/.test(last)) return false;
+  return !/[.!?)"'*`_\]]$/.test(last);
+}
+
+/**
+ * Check a chapter against the structure the chapter prompt asks for.
+ */
+export function checkChapter(markdown: string, ch: ChapterOutline): { stats: ContentStats; issues: ChapterIssue[] } {
+  const stats = analyzeMarkdown(markdown);
+  const issues: ChapterIssue[] = [];
+
+  if (!new RegExp(`^#\\s+Chapter\\s+${ch.number}\\s*:`, 'm').test(markdown)) {
+    issues.push({ check: 'header', message: `missing the "# Chapter ${ch.number}: ${ch.title}" header` });
+  }
+  if (!hasSection(markdown, /learning objectives/i)) {
+    issues.push({ check: 'objectives', message: 'missing the Learning Objectives section' });
+  }
+  if (stats.mermaidDiagrams < CHAPTER_MINIMUMS.mermaidDiagrams) {
+    issues.push({ check: 'mermaid', message: `has ${stats.mermaidDiagrams} Mermaid diagram(s); at least ${CHAPTER_MINIMUMS.mermaidDiagrams} are required` });
+  }
+  if (stats.tables < CHAPTER_MINIMUMS.tables) {
+    issues.push({ check: 'tables', message: `has ${stats.tables} table(s); at least ${CHAPTER_MINIMUMS.tables} are required` });
+  }
+  if (!hasSection(markdown, /key takeaways/i)) {
+    issues.push({ check: 'takeaways', message: 'missing the Key Takeaways section' });
+  }
+  if (!hasSection(markdown, /review questions/i)) {
+    issues.push({ check: 'review-questions', message: 'missing the Review Questions section' });
+  }
+  if (stats.words < CHAPTER_WORDS.min || stats.words > CHAPTER_WORDS.max) {
+    issues.push({ check: 'word-count', message: `has ${stats.words} words; the target is ${CHAPTER_WORDS.min}–${CHAPTER_WORDS.max}` });
+  }
+  if (looksTruncated(markdown)) {
+    issues.push({ check: 'truncated', message: 'appears to be cut off before the end' });
+  }
+
+  return { stats, issues };
+}
@@ -1,12 +1,13 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider, OutputSchema } from './types.js';
+import { createProvider } from './providers/index.js';
 
-let client: Anthropic | null = null;
+let defaultProvider: LLMProvider | null = null;
 
-export function getClient(): Anthropic {
-  if (!client) {
-    client = new Anthropic();
+function getDefaultProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createProvider({});
   }
-  return client;
+  return defaultProvider;
 }
 
 export async function generate(
@@ -15,27 +16,23 @@ export async function generate(
     system?: string;
     model?: string;
     maxTokens?: number;
+    provider?: LLMProvider;
   } = {}
 ): Promise<string> {
-  const anthropic = getClient();
-  const model = options.model || 'claude-sonnet-4-5';
-  const maxTokens = options.maxTokens || 8192;
+  const provider = options.provider ?? getDefaultProvider();
 
-  const stream = anthropic.messages.stream({
-    model,
-    max_tokens: maxTokens,
+  const response = await provider.complete({
+    prompt,
     system: options.system || 'You are an expert educational content creator.',
-    messages: [{ role: 'user', content: prompt }],
+    model: options.model || 'claude-sonnet-4-5',
+    maxTokens: options.maxTokens || 8192,
   });
-
-  const response = await stream.finalMessage();
-  const textBlock = response.content.find(b => b.type === 'text');
-  return textBlock?.text ?? '';
+  return response.text;
 }
 
 export async function generateParallel(
   prompts: { prompt: string; system?: string }[],
-  options: { model?: string; maxTokens?: number } = {}
+  options: { model?: string; maxTokens?: number; provider?: LLMProvider } = {}
 ): Promise<string[]> {
   const results = await Promise.all(
     prompts.map(p =>
@@ -43,8 +40,70 @@ export async function generateParallel(
         system: p.system,
         model: options.model,
         maxTokens: options.maxTokens,
+        provider: options.provider,
       })
     )
   );
   return results;
 }
+
+/**
+ * The model answered a structured request with nothing or with text that is
+ * not JSON.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Whether a structured request failed because of the structured output itself
+ * — an empty or unparseable response, or a provider rejecting the request
+ * (400/422, e.g. an endpoint without tool or json_schema support) — so that a
+ * plain-text fallback may succeed. Auth errors, exhausted retries, timeouts
+ * and cassette misses are not, and should propagate.
+ */
+export function isStructuredOutputFailure(error: unknown): boolean {
+  if (error instanceof StructuredOutputError) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  return status === 400 || status === 422;
+}
+
+/**
+ * Generate JSON matching `schema`. Throws a StructuredOutputError if the
+ * response is not valid JSON; callers validate the shape themselves.
+ */
+export async function generateStructured(
+  prompt: string,
+  options: {
+    schema: OutputSchema;
+    system?: string;
+    model?: string;
+    maxTokens?: number;
+    provider?: LLMProvider;
+  }
+): Promise<unknown> {
+  const provider = options.provider ?? getDefaultProvider();
+
+  const response = await provider.complete({
+    prompt,
+    system: options.system || 'You are an expert educational content creator.',
+    model: options.model || 'claude-sonnet-4-5',
+    maxTokens: options.maxTokens || 8192,
+    schema: options.schema,
+  });
+
+  // Some OpenAI-compatible servers wrap JSON in a code fence despite the response format
+  const text = response.text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '');
+  if (!text) {
+    throw new StructuredOutputError(`Empty structured response for ${options.schema.name}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new StructuredOutputError(`Invalid JSON in structured response for ${options.schema.name}: ${msg}`);
+  }
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { linkGlossaryTerms } from './link.js';
+
+test('does not link terms inside a title that contains parentheses', () => {
+  const definitions = new Map([['Quantum Gate', 'An operation (reversible) applied to a register of qubits']]);
+  const once = linkGlossaryTerms('A quantum gate acts on a register.', ['Quantum Gate', 'Register'], '../glossary.md', definitions);
+
+  assert.equal(
+    once,
+    'A [quantum gate](../glossary.md#term-quantum-gate "An operation (reversible) applied to a register of qubits")' +
+      ' acts on a [register](../glossary.md#term-register).'
+  );
+});
+
+test('leaves existing links with parenthesised titles untouched', () => {
+  const markdown = 'See [gates](gates.md "Gates (unitary) on a register") and the register.';
+  const linked = linkGlossaryTerms(markdown, ['Register'], '../glossary.md');
+
+  assert.equal(linked, 'See [gates](gates.md "Gates (unitary) on a register") and the [register](../glossary.md#term-register).');
+});
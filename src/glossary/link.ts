@@ -0,0 +1,124 @@
+/**
+ * Anchor ID for a glossary term, shared by the glossary page and the links
+ * that point at it.
+ */
+export function glossaryAnchor(term: string): string {
+  return `term-${term.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Singular and plural spellings of the last word, so "Qubit" also matches
+ * "qubits" and "Neural Networks" also matches "neural network".
+ */
+function wordVariants(word: string): string[] {
+  const lower = word.toLowerCase();
+  const variants = new Set([lower]);
+  if (/[^aeiou]y$/.test(lower)) variants.add(`${lower.slice(0, -1)}ies`);
+  else if (/(s|x|z|ch|sh)$/.test(lower)) variants.add(`${lower}es`);
+  else variants.add(`${lower}s`);
+
+  if (/ies$/.test(lower)) variants.add(`${lower.slice(0, -3)}y`);
+  else if (/(ses|xes|zes|ches|shes)$/.test(lower)) variants.add(lower.slice(0, -2));
+  else if (/[^s]s$/.test(lower)) variants.add(lower.slice(0, -1));
+  return [...variants];
+}
+
+/**
+ * Case-insensitive pattern for a term as a whole phrase, accepting singular
+ * and plural forms of its last word.
+ */
+export function termPattern(term: string): RegExp {
+  const words = term.trim().split(/\s+/);
+  const last = words.pop()!;
+  const head = words.map(w => `${escapeRegExp(w)}\\s+`).join('');
+  const tails = wordVariants(last).map(escapeRegExp).sort((a, b) => b.length - a.length).join('|');
+  return new RegExp(`(?<![\\w-])${head}(?:${tails})(?![\\w-])`, 'i');
+}
+
+// Inline spans that must never be rewritten: code, existing links and images (including a
+// quoted title, which may contain parentheses), autolinks, HTML tags
+const PROTECTED = /`+[^`]*`+|!?\[[^\]]*\]\((?:[^)\s]*\s+"[^"]*"|[^)]*)\)|<[^>]+>|https?:\/\/\S+/g;
+
+/**
+ * Split a line into alternating [text, protected, text, ...] segments.
+ */
+function segments(line: string): { text: string; linkable: boolean }[] {
+  const parts: { text: string; linkable: boolean }[] = [];
+  let last = 0;
+  for (const m of line.matchAll(PROTECTED)) {
+    if (m.index! > last) parts.push({ text: line.slice(last, m.index), linkable: true });
+    parts.push({ text: m[0], linkable: false });
+    last = m.index! + m[0].length;
+  }
+  if (last < line.length) parts.push({ text: line.slice(last), linkable: true });
+  return parts;
+}
+
+/**
+ * Which lines of a markdown document may contain links: everything except
+ * fenced code (including mermaid), headings, admonition titles, raw HTML
+ * lines and table separator rows.
+ */
+function linkableLines(lines: string[]): boolean[] {
+  let fence: string | null = null;
+  return lines.map(line => {
+    const trimmed = line.trim();
+    const opener = trimmed.match(/^(`{3,}|~{3,})/)?.[1];
+    if (fence) {
+      if (opener && opener[0] === fence[0] && opener.length >= fence.length && trimmed === opener) fence = null;
+      return false;
+    }
+    if (opener) {
+      fence = opener;
+      return false;
+    }
+    if (/^#{1,6}\s/.test(trimmed)) return false;
+    if (/^(!!!|\?\?\?\+?)\s/.test(trimmed)) return false;
+    if (trimmed.startsWith('<')) return false;
+    if (/^\|?[\s:|-]+\|?$/.test(trimmed) && trimmed.includes('-')) return false;
+    return true;
+  });
+}
+
+/**
+ * Link the first occurrence of each term in a markdown document to its
+ * glossary anchor. Longer terms are linked first, so "Quantum Gate" wins over
+ * "Quantum"; existing links are never touched, which makes the pass idempotent.
+ */
+export function linkGlossaryTerms(
+  markdown: string,
+  terms: string[],
+  glossaryPath: string,
+  definitions: Map<string, string> = new Map()
+): string {
+  const lines = markdown.split('\n');
+  const allowed = linkableLines(lines);
+  const sorted = [...new Set(terms.filter(t => t.trim()))].sort((a, b) => b.length - a.length);
+
+  for (const term of sorted) {
+    const anchor = glossaryAnchor(term);
+    // Already linked (e.g. a previous pass)? Then leave this chapter alone for the term.
+    if (markdown.includes(`${glossaryPath}#${anchor}`)) continue;
+
+    const pattern = termPattern(term);
+    const title = definitions.get(term);
+    const titleAttr = title ? ` "${title.replace(/"/g, "'").replace(/\s+/g, ' ').slice(0, 200)}"` : '';
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!allowed[i]) continue;
+      const parts = segments(lines[i]);
+      const hit = parts.findIndex(p => p.linkable && pattern.test(p.text));
+      if (hit === -1) continue;
+
+      parts[hit].text = parts[hit].text.replace(pattern, match => `[${match}](${glossaryPath}#${anchor}${titleAttr})`);
+      lines[i] = parts.map(p => p.text).join('');
+      break;
+    }
+  }
+
+  return lines.join('\n');
+}
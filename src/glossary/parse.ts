@@ -0,0 +1,79 @@
+import type { GlossaryEntry } from '../types.js';
+
+export interface ParsedGlossary {
+  /** Text before the first heading. */
+  intro: string;
+  entries: GlossaryEntry[];
+  /** Non-alphabetical sections (e.g. "Key Formulas and Relationships"), kept verbatim. */
+  sections: { heading: string; body: string }[];
+}
+
+/**
+ * Parse glossary markdown into term/definition pairs. Terms are bold at the
+ * start of a line, optionally followed by an anchor and a "(Chapter N — Taxonomy)"
+ * note, with the definition on ": " lines below or after a colon/dash on the
+ * same line. Letter headings (## A) group entries; other ## sections are kept.
+ */
+export function parseGlossary(raw: string): ParsedGlossary {
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+  const entries: GlossaryEntry[] = [];
+  const sections: { heading: string; body: string }[] = [];
+  const intro: string[] = [];
+
+  let section: { heading: string; body: string[] } | null = null;
+  let seenHeading = false;
+  let current: GlossaryEntry | null = null;
+
+  const flushSection = () => {
+    if (section) sections.push({ heading: section.heading, body: section.body.join('\n').trim() });
+    section = null;
+  };
+
+  for (const line of lines) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      flushSection();
+      current = null;
+      seenHeading = true;
+      // Letter headings ("## A", "## A–C") group entries; anything else is a section to keep
+      if (!/^[A-Z0-9](?:\s*[–-]\s*[A-Z0-9])?$/i.test(heading[1])) section = { heading: heading[1], body: [] };
+      continue;
+    }
+    if (/^#\s/.test(line)) continue;
+
+    if (section) {
+      section.body.push(line);
+      continue;
+    }
+
+    const term = line.match(/^\*\*([^*\n]+?)\*\*(?:\{[^}]*\})?\s*(?:\*\(([^)]*)\)\*)?\s*(?:[:—–-]\s*(.*))?$/);
+    if (term) {
+      const meta = term[2] ?? '';
+      current = {
+        term: term[1].trim().replace(/[:.]$/, ''),
+        chapter: Number(meta.match(/Chapter\s+(\d+)/i)?.[1]) || undefined,
+        taxonomy: meta.match(/[—–-]\s*(\w+)/)?.[1],
+        definition: (term[3] ?? '').trim(),
+      };
+      entries.push(current);
+      continue;
+    }
+
+    const definition = line.match(/^:\s+(.*)$/);
+    if (current && definition) {
+      current.definition = [current.definition, definition[1].trim()].filter(Boolean).join(' ');
+      continue;
+    }
+    if (current && /^\s{2,}\S/.test(line) && current.definition) {
+      current.definition += ` ${line.trim()}`;
+      continue;
+    }
+    if (line.trim() === '') {
+      current = null;
+    }
+    if (!seenHeading && !current) intro.push(line);
+  }
+  flushSection();
+
+  return { intro: intro.join('\n').replace(/^-{3,}$/gm, '').trim(), entries, sections };
+}
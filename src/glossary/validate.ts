@@ -0,0 +1,76 @@
+import type { Concept, GlossaryEntry } from '../types.js';
+import { termPattern } from './link.js';
+
+export type GlossaryIssueKind = 'missing' | 'extra' | 'circular' | 'too-short' | 'too-long';
+
+export interface GlossaryIssue {
+  kind: GlossaryIssueKind;
+  term: string;
+  message: string;
+}
+
+/** Accepted definition length, in words. */
+export const DEFINITION_WORDS = { min: 8, max: 80 };
+
+const normalize = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Problems with a single definition: circular (uses the term itself) or
+ * outside the accepted length range.
+ */
+export function checkDefinition(term: string, definition: string): GlossaryIssue[] {
+  const issues: GlossaryIssue[] = [];
+  const words = definition.split(/\s+/).filter(Boolean).length;
+
+  if (termPattern(term).test(definition)) {
+    issues.push({ kind: 'circular', term, message: `"${term}" is defined using the term itself` });
+  }
+  if (words < DEFINITION_WORDS.min) {
+    issues.push({ kind: 'too-short', term, message: `"${term}" has a ${words}-word definition (minimum ${DEFINITION_WORDS.min})` });
+  } else if (words > DEFINITION_WORDS.max) {
+    issues.push({ kind: 'too-long', term, message: `"${term}" has a ${words}-word definition (maximum ${DEFINITION_WORDS.max})` });
+  }
+  return issues;
+}
+
+/**
+ * Check parsed glossary entries against the learning graph: every concept
+ * defined exactly once, no terms that are not concepts, and every definition
+ * non-circular and within the length range.
+ */
+export function validateGlossary(entries: GlossaryEntry[], concepts: Concept[]): GlossaryIssue[] {
+  const issues: GlossaryIssue[] = [];
+  const byName = new Map(entries.map(e => [normalize(e.term), e]));
+  const conceptNames = new Set(concepts.map(c => normalize(c.name)));
+
+  for (const c of concepts) {
+    const entry = byName.get(normalize(c.name));
+    if (!entry || !entry.definition) {
+      issues.push({ kind: 'missing', term: c.name, message: `"${c.name}" has no glossary definition` });
+    } else {
+      issues.push(...checkDefinition(c.name, entry.definition));
+    }
+  }
+
+  for (const e of entries) {
+    if (!conceptNames.has(normalize(e.term))) {
+      issues.push({ kind: 'extra', term: e.term, message: `"${e.term}" is not a concept in the learning graph` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Pair entries with the concepts they define, in concept order. Concepts
+ * without an entry are left out; entries that are not concepts are dropped.
+ */
+export function matchEntries(entries: GlossaryEntry[], concepts: Concept[]): GlossaryEntry[] {
+  const byName = new Map(entries.map(e => [normalize(e.term), e]));
+  return concepts.flatMap(c => {
+    const entry = byName.get(normalize(c.name));
+    return entry?.definition
+      ? [{ term: c.name, conceptId: c.id, chapter: c.chapter, taxonomy: c.taxonomy, definition: entry.definition }]
+      : [];
+  });
+}
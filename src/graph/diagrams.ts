@@ -0,0 +1,133 @@
+import type { Concept } from '../types.js';
+
+/**
+ * Size limits that keep every diagram within what Mermaid renders legibly
+ * (and well under its default maxEdges / maxTextSize limits).
+ */
+export const DIAGRAM_LIMITS = {
+  /** Concepts per chapter diagram; larger chapters are split into parts. */
+  maxNodes: 40,
+  /** External prerequisite nodes per diagram; the rest collapse into one "+N more" node. */
+  maxExternal: 15,
+};
+
+export interface ChapterDiagram {
+  chapter: number;
+  part: number;
+  parts: number;
+  concepts: Concept[];
+  mermaid: string;
+}
+
+function label(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/[<>]/g, '');
+}
+
+const nodeId = (id: number) => `c${id}`;
+
+/**
+ * One diagram per chapter containing every concept taught there, grouped in a
+ * subgraph. Prerequisites from other chapters (or earlier parts of a split
+ * chapter) appear as external nodes joined by dashed links.
+ */
+export function buildChapterDiagrams(
+  concepts: Concept[],
+  chapters: number,
+  limits = DIAGRAM_LIMITS
+): ChapterDiagram[] {
+  const byId = new Map(concepts.map(c => [c.id, c]));
+  const diagrams: ChapterDiagram[] = [];
+
+  for (let n = 1; n <= chapters; n++) {
+    const inChapter = concepts.filter(c => c.chapter === n);
+    const parts = Math.max(1, Math.ceil(inChapter.length / limits.maxNodes));
+
+    for (let p = 0; p < parts; p++) {
+      const members = inChapter.slice(p * limits.maxNodes, (p + 1) * limits.maxNodes);
+      if (members.length === 0) continue;
+      diagrams.push({
+        chapter: n,
+        part: p + 1,
+        parts,
+        concepts: members,
+        mermaid: buildDiagram(members, byId, parts > 1 ? `Chapter ${n} (part ${p + 1} of ${parts})` : `Chapter ${n}`, limits),
+      });
+    }
+  }
+
+  return diagrams;
+}
+
+function buildDiagram(members: Concept[], byId: Map<number, Concept>, title: string, limits: typeof DIAGRAM_LIMITS): string {
+  const memberIds = new Set(members.map(c => c.id));
+  const internal: string[] = [];
+  const externalEdges: [number, number][] = [];
+
+  for (const c of members) {
+    for (const depId of c.dependencies) {
+      if (!byId.has(depId)) continue;
+      if (memberIds.has(depId)) internal.push(`  ${nodeId(depId)} --> ${nodeId(c.id)}`);
+      else externalEdges.push([depId, c.id]);
+    }
+  }
+
+  // Keep the most-referenced external prerequisites; collapse the rest
+  const refCounts = new Map<number, number>();
+  for (const [depId] of externalEdges) refCounts.set(depId, (refCounts.get(depId) ?? 0) + 1);
+  const ranked = [...refCounts.keys()].sort((a, b) => refCounts.get(b)! - refCounts.get(a)! || a - b);
+  const shown = new Set(ranked.slice(0, limits.maxExternal));
+  const hidden = ranked.length - shown.size;
+
+  const lines = ['graph TD', `  subgraph chapter["${label(title)}"]`];
+  for (const c of members) lines.push(`    ${nodeId(c.id)}["${c.id}. ${label(c.name)}"]`);
+  lines.push('  end');
+
+  for (const depId of [...shown].sort((a, b) => a - b)) {
+    const dep = byId.get(depId)!;
+    lines.push(`  ${nodeId(depId)}["${dep.id}. ${label(dep.name)}<br/><i>Chapter ${dep.chapter}</i>"]:::external`);
+  }
+  if (hidden > 0) lines.push(`  more(["+${hidden} more prerequisite(s)"]):::external`);
+
+  lines.push(...internal);
+
+  const collapsedTargets = new Set<number>();
+  for (const [depId, id] of externalEdges) {
+    if (shown.has(depId)) lines.push(`  ${nodeId(depId)} -.-> ${nodeId(id)}`);
+    else collapsedTargets.add(id);
+  }
+  for (const id of collapsedTargets) lines.push(`  more -.-> ${nodeId(id)}`);
+
+  lines.push('  classDef external fill:#f5f5f5,stroke:#9e9e9e,stroke-dasharray: 4 3,color:#616161');
+  return lines.join('\n');
+}
+
+/**
+ * Chapter-level graph: one node per chapter, an edge from chapter A to chapter B
+ * when a concept in B depends on one in A, labelled with the number of such links.
+ */
+export function buildChapterSummaryDiagram(concepts: Concept[], chapters: number, titles: string[] = []): string {
+  const byId = new Map(concepts.map(c => [c.id, c]));
+  const links = new Map<string, number>();
+
+  for (const c of concepts) {
+    for (const depId of c.dependencies) {
+      const dep = byId.get(depId);
+      if (!dep || dep.chapter === c.chapter) continue;
+      const key = `${dep.chapter}->${c.chapter}`;
+      links.set(key, (links.get(key) ?? 0) + 1);
+    }
+  }
+
+  const lines = ['graph LR'];
+  for (let n = 1; n <= chapters; n++) {
+    const count = concepts.filter(c => c.chapter === n).length;
+    const title = titles[n - 1] ? `<br/>${label(titles[n - 1])}` : '';
+    lines.push(`  ch${n}["Chapter ${n}${title}<br/><i>${count} concepts</i>"]`);
+  }
+  const sorted = [...links.entries()].sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+  for (const [key, count] of sorted) {
+    const [from, to] = key.split('->');
+    lines.push(`  ch${from} -->|${count}| ch${to}`);
+  }
+  return lines.join('\n');
+}
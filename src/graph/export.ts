@@ -0,0 +1,113 @@
+import type { Concept } from '../types.js';
+
+/**
+ * Short taxonomy IDs used as vis-network group keys and in the CSV TaxonomyID column.
+ */
+export const TAXONOMY_GROUPS: Record<string, { id: string; color: string }> = {
+  Foundation: { id: 'FOUND', color: '#4caf50' },
+  Core: { id: 'CORE', color: '#2196f3' },
+  Advanced: { id: 'ADV', color: '#ff6d00' },
+};
+
+export function taxonomyId(taxonomy: string): string {
+  return TAXONOMY_GROUPS[taxonomy]?.id ?? taxonomy.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+export interface LearningGraphJson {
+  metadata: {
+    title: string;
+    description: string;
+    conceptCount: number;
+    edgeDirection: string;
+    generatedBy: string;
+  };
+  groups: Record<string, { classifierName: string; color: string }>;
+  nodes: { id: number; label: string; group: string; chapter: number; bloomLevel: string }[];
+  edges: { from: number; to: number }[];
+}
+
+/**
+ * vis-network compatible graph: nodes grouped by taxonomy, one edge per
+ * dependency pointing from the prerequisite to the concept that needs it.
+ */
+export function toLearningGraphJson(title: string, concepts: Concept[]): LearningGraphJson {
+  const groups: LearningGraphJson['groups'] = {};
+  for (const c of concepts) {
+    const id = taxonomyId(c.taxonomy);
+    groups[id] ??= { classifierName: c.taxonomy, color: TAXONOMY_GROUPS[c.taxonomy]?.color ?? '#9e9e9e' };
+  }
+
+  return {
+    metadata: {
+      title,
+      description: `Learning graph of ${concepts.length} concepts for ${title}`,
+      conceptCount: concepts.length,
+      edgeDirection: 'from prerequisite to dependent concept',
+      generatedBy: 'create-intelligent-textbook',
+    },
+    groups,
+    nodes: concepts.map(c => ({
+      id: c.id,
+      label: c.name,
+      group: taxonomyId(c.taxonomy),
+      chapter: c.chapter,
+      bloomLevel: c.bloomLevel,
+    })),
+    edges: concepts.flatMap(c => c.dependencies.map(depId => ({ from: depId, to: c.id }))),
+  };
+}
+
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * One row per concept; dependencies are pipe-separated so the column stays a single CSV field.
+ */
+export function toLearningGraphCsv(concepts: Concept[]): string {
+  const header = 'ConceptID,ConceptLabel,Dependencies,TaxonomyID';
+  const rows = concepts.map(c =>
+    [c.id, c.name, c.dependencies.join('|'), taxonomyId(c.taxonomy)].map(csvField).join(',')
+  );
+  return [header, ...rows].join('\n') + '\n';
+}
+
+function xml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function toLearningGraphGraphML(title: string, concepts: Concept[]): string {
+  const nodes = concepts
+    .map(c => `    <node id="n${c.id}">
+      <data key="label">${xml(c.name)}</data>
+      <data key="chapter">${c.chapter}</data>
+      <data key="taxonomy">${xml(c.taxonomy)}</data>
+      <data key="bloomLevel">${xml(c.bloomLevel)}</data>
+    </node>`)
+    .join('\n');
+
+  const edges = concepts
+    .flatMap(c => c.dependencies.map(depId => `    <edge id="e${depId}-${c.id}" source="n${depId}" target="n${c.id}"/>`))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">
+  <key id="label" for="node" attr.name="label" attr.type="string"/>
+  <key id="chapter" for="node" attr.name="chapter" attr.type="int"/>
+  <key id="taxonomy" for="node" attr.name="taxonomy" attr.type="string"/>
+  <key id="bloomLevel" for="node" attr.name="bloomLevel" attr.type="string"/>
+  <graph id="${xml(title)}" edgedefault="directed">
+${nodes}
+${edges}
+  </graph>
+</graphml>
+`;
+}
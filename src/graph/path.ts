@@ -0,0 +1,61 @@
+import type { Concept } from '../types.js';
+
+export interface LearningPath {
+  target: Concept;
+  /** Every transitive prerequisite of the target, in reading order (chapter, then ID). */
+  prerequisites: Concept[];
+  /** Chapters containing the prerequisites and the target, ascending. */
+  chapters: number[];
+}
+
+/**
+ * Find a concept by ID, exact name (case-insensitive), or a unique name fragment.
+ */
+export function resolveConcept(concepts: Concept[], query: string | number): Concept {
+  const text = String(query).trim();
+
+  if (/^\d+$/.test(text)) {
+    const byId = concepts.find(c => c.id === Number(text));
+    if (!byId) throw new Error(`No concept with ID ${text} (IDs run 1–${concepts.length}).`);
+    return byId;
+  }
+
+  const lower = text.toLowerCase();
+  const exact = concepts.find(c => c.name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = concepts.filter(c => c.name.toLowerCase().includes(lower));
+  if (partial.length === 1) return partial[0];
+  if (partial.length === 0) throw new Error(`No concept matches "${text}".`);
+
+  const listed = partial.slice(0, 10).map(c => `${c.id}. ${c.name}`).join(', ');
+  const more = partial.length > 10 ? `, …and ${partial.length - 10} more` : '';
+  throw new Error(`"${text}" matches ${partial.length} concepts: ${listed}${more}. Use the ID or the full name.`);
+}
+
+/**
+ * The minimal set of concepts a learner must cover before the target: its
+ * dependencies, their dependencies, and so on. Because a validated learning
+ * graph only points to the same or earlier chapters and lower IDs, sorting by
+ * chapter then ID is a valid reading order.
+ */
+export function findLearningPath(concepts: Concept[], target: string | number): LearningPath {
+  const goal = resolveConcept(concepts, target);
+  const byId = new Map(concepts.map(c => [c.id, c]));
+
+  const needed = new Set<number>();
+  const queue = [...goal.dependencies];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    if (needed.has(id) || id === goal.id || !byId.has(id)) continue;
+    needed.add(id);
+    queue.push(...byId.get(id)!.dependencies);
+  }
+
+  const prerequisites = [...needed]
+    .map(id => byId.get(id)!)
+    .sort((a, b) => a.chapter - b.chapter || a.id - b.id);
+  const chapters = [...new Set([...prerequisites.map(c => c.chapter), goal.chapter])].sort((a, b) => a - b);
+
+  return { target: goal, prerequisites, chapters };
+}
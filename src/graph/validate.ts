@@ -0,0 +1,205 @@
+import type { Concept, TextbookConfig } from '../types.js';
+
+export const GRAPH_REPAIR_MODES: NonNullable<TextbookConfig['graphRepair']>[] = ['auto', 'reprompt'];
+
+export type GraphIssueKind =
+  | 'duplicate-id'
+  | 'id-gap'
+  | 'chapter-out-of-range'
+  | 'self-dependency'
+  | 'dangling-dependency'
+  | 'forward-reference'
+  | 'later-chapter-dependency'
+  | 'cycle';
+
+export interface GraphIssue {
+  kind: GraphIssueKind;
+  conceptId: number;
+  message: string;
+}
+
+export interface RepairResult {
+  concepts: Concept[];
+  /** Human-readable description of every change made. */
+  actions: string[];
+}
+
+/**
+ * Check a learning graph against the invariants the rest of the pipeline relies on:
+ * IDs are unique and run 1..N, chapters are in range, and every dependency points
+ * to an existing, lower-numbered concept taught in the same or an earlier chapter.
+ */
+export function validateLearningGraph(concepts: Concept[], chapterCount: number): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  const byId = new Map<number, Concept>();
+
+  for (const c of concepts) {
+    if (byId.has(c.id)) {
+      issues.push({ kind: 'duplicate-id', conceptId: c.id, message: `ID ${c.id} is used by both "${byId.get(c.id)!.name}" and "${c.name}"` });
+    } else {
+      byId.set(c.id, c);
+    }
+  }
+
+  const maxId = Math.max(0, ...byId.keys());
+  for (let id = 1; id <= maxId; id++) {
+    if (!byId.has(id)) {
+      issues.push({ kind: 'id-gap', conceptId: id, message: `ID ${id} is missing from the sequence 1–${maxId}` });
+    }
+  }
+
+  for (const c of concepts) {
+    if (c.chapter < 1 || c.chapter > chapterCount) {
+      issues.push({ kind: 'chapter-out-of-range', conceptId: c.id, message: `Concept ${c.id} "${c.name}" is in chapter ${c.chapter}, outside 1–${chapterCount}` });
+    }
+
+    for (const depId of c.dependencies) {
+      const dep = byId.get(depId);
+      if (depId === c.id) {
+        issues.push({ kind: 'self-dependency', conceptId: c.id, message: `Concept ${c.id} "${c.name}" depends on itself` });
+      } else if (!dep) {
+        issues.push({ kind: 'dangling-dependency', conceptId: c.id, message: `Concept ${c.id} "${c.name}" depends on ${depId}, which does not exist` });
+      } else if (depId > c.id) {
+        issues.push({ kind: 'forward-reference', conceptId: c.id, message: `Concept ${c.id} "${c.name}" depends on later concept ${depId} "${dep.name}"` });
+      } else if (dep.chapter > c.chapter) {
+        issues.push({
+          kind: 'later-chapter-dependency',
+          conceptId: c.id,
+          message: `Concept ${c.id} "${c.name}" (chapter ${c.chapter}) depends on ${depId} "${dep.name}" from later chapter ${dep.chapter}`,
+        });
+      }
+    }
+  }
+
+  for (const cycle of findCycles(concepts, byId)) {
+    issues.push({ kind: 'cycle', conceptId: cycle[0], message: `Dependency cycle: ${cycle.join(' → ')}` });
+  }
+
+  return issues;
+}
+
+function findCycles(concepts: Concept[], byId: Map<number, Concept>): number[][] {
+  const cycles: number[][] = [];
+  const state = new Map<number, 'visiting' | 'done'>();
+  const stack: number[] = [];
+
+  const visit = (id: number): void => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const depId of byId.get(id)?.dependencies ?? []) {
+      if (!byId.has(depId) || depId === id) continue;
+      if (state.get(depId) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(depId)), depId]);
+      } else if (!state.has(depId)) {
+        visit(depId);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const c of concepts) {
+    if (!state.has(c.id)) visit(c.id);
+  }
+  return cycles;
+}
+
+/**
+ * Turn any learning graph into one that passes validateLearningGraph, keeping as
+ * many edges and as much of the original order as possible:
+ *
+ * 1. Duplicate IDs keep their first occurrence; dependencies on the ID resolve to it.
+ * 2. Chapters are clamped into range.
+ * 3. Self, dangling and later-chapter dependencies are dropped.
+ * 4. Concepts are topologically ordered (ties broken by original position), so
+ *    forward references become backward ones; edges on a cycle are dropped.
+ * 5. IDs are renumbered 1..N in that order.
+ */
+export function repairLearningGraph(concepts: Concept[], chapterCount: number): RepairResult {
+  const actions: string[] = [];
+  const label = (c: Concept) => `${c.id} "${c.name}"`;
+
+  // 1. Resolve IDs to the first concept that uses them
+  const firstIndex = new Map<number, number>();
+  concepts.forEach((c, i) => {
+    if (firstIndex.has(c.id)) {
+      actions.push(`Renumbered duplicate ID ${c.id} on "${c.name}"`);
+    } else {
+      firstIndex.set(c.id, i);
+    }
+  });
+
+  // 2. Clamp chapters
+  const chapters = concepts.map(c => {
+    const clamped = Math.min(Math.max(1, c.chapter), Math.max(1, chapterCount));
+    if (clamped !== c.chapter) actions.push(`Moved ${label(c)} from chapter ${c.chapter} to ${clamped}`);
+    return clamped;
+  });
+
+  // 3. Resolve dependencies to indices, dropping edges that can never be valid
+  const deps: Set<number>[] = concepts.map((c, i) => {
+    const resolved = new Set<number>();
+    for (const depId of c.dependencies) {
+      const j = firstIndex.get(depId);
+      if (j === undefined) {
+        actions.push(`Dropped dependency of ${label(c)} on ${depId} (does not exist)`);
+      } else if (j === i) {
+        actions.push(`Dropped self-dependency of ${label(c)}`);
+      } else if (chapters[j] > chapters[i]) {
+        actions.push(`Dropped dependency of ${label(c)} on ${label(concepts[j])} (taught in later chapter ${chapters[j]})`);
+      } else {
+        resolved.add(j);
+      }
+    }
+    return resolved;
+  });
+
+  // 4. Stable topological order; break cycles by dropping the blocking edges
+  const order: number[] = [];
+  const placed = new Set<number>();
+  while (order.length < concepts.length) {
+    let next = -1;
+    for (let i = 0; i < concepts.length; i++) {
+      if (!placed.has(i) && [...deps[i]].every(j => placed.has(j))) {
+        next = i;
+        break;
+      }
+    }
+    if (next === -1) {
+      next = concepts.findIndex((_, i) => !placed.has(i));
+      for (const j of deps[next]) {
+        if (!placed.has(j)) {
+          deps[next].delete(j);
+          actions.push(`Dropped dependency of ${label(concepts[next])} on ${label(concepts[j])} (breaks a cycle)`);
+        }
+      }
+    }
+    placed.add(next);
+    order.push(next);
+  }
+
+  // 5. Renumber
+  const newId = new Map<number, number>();
+  order.forEach((i, pos) => newId.set(i, pos + 1));
+
+  const repaired = order.map(i => ({
+    ...concepts[i],
+    id: newId.get(i)!,
+    chapter: chapters[i],
+    dependencies: [...deps[i]].map(j => newId.get(j)!).sort((a, b) => a - b),
+  }));
+
+  const renumbered = order.filter(i => newId.get(i) !== concepts[i].id).length;
+  if (renumbered > 0) actions.push(`Renumbered ${renumbered} concept(s) so IDs run 1–${repaired.length} in dependency order`);
+
+  return { concepts: repaired, actions };
+}
+
+/**
+ * Count issues by kind, in a stable order, for summaries.
+ */
+export function countIssues(issues: GraphIssue[]): [GraphIssueKind, number][] {
+  const counts = new Map<GraphIssueKind, number>();
+  for (const issue of issues) counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1);
+  return [...counts.entries()];
+}
@@ -0,0 +1,343 @@
+import type { Concept } from '../types.js';
+import { toLearningGraphJson } from './export.js';
+
+/**
+ * Self-contained HTML knowledge-graph viewer: the graph is inlined as JSON and
+ * drawn as SVG by a small script, so the page works offline with no CDN.
+ *
+ * Concepts are laid out in one column per chapter. The page supports colouring
+ * by taxonomy or chapter, search, chapter filters, pan/zoom, and clicking a
+ * concept to highlight all of its prerequisites and dependents.
+ */
+export function buildGraphViewerHtml(title: string, concepts: Concept[]): string {
+  // Escape "<" so a concept name can never close the inline <script>
+  const data = JSON.stringify(toLearningGraphJson(title, concepts)).replace(/</g, '\\u003c');
+  const safeTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Knowledge Graph: ${safeTitle}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #212121; background: #fff; }
+  #app { display: flex; flex-direction: column; height: 100vh; }
+  #toolbar { display: flex; flex-wrap: wrap; gap: 8px 16px; align-items: center; padding: 8px 12px; border-bottom: 1px solid #e0e0e0; background: #fafafa; }
+  #toolbar input[type=search] { padding: 4px 8px; border: 1px solid #bdbdbd; border-radius: 4px; min-width: 200px; }
+  #toolbar button { padding: 3px 8px; border: 1px solid #bdbdbd; border-radius: 4px; background: #fff; cursor: pointer; }
+  #chapters { display: flex; flex-wrap: wrap; gap: 4px 10px; align-items: center; }
+  #chapters label { white-space: nowrap; cursor: pointer; }
+  #main { flex: 1; display: flex; min-height: 0; }
+  #canvas { flex: 1; min-width: 0; cursor: grab; }
+  #canvas.dragging { cursor: grabbing; }
+  #side { width: 260px; overflow-y: auto; padding: 10px 12px; border-left: 1px solid #e0e0e0; background: #fafafa; }
+  #side h2 { font-size: 14px; margin: 0 0 6px; }
+  #side h3 { font-size: 12px; margin: 12px 0 4px; text-transform: uppercase; color: #616161; }
+  #side ul { margin: 0; padding-left: 18px; }
+  #side li { cursor: pointer; }
+  #side li:hover { text-decoration: underline; }
+  .legend-item { display: flex; align-items: center; gap: 6px; margin: 2px 0; }
+  .swatch { width: 12px; height: 12px; border-radius: 50%; flex: none; }
+  .node circle { stroke: #fff; stroke-width: 1.5; cursor: pointer; }
+  .node text { font-size: 11px; fill: #424242; pointer-events: none; }
+  .edge { fill: none; stroke: #b0bec5; stroke-width: 1; }
+  .faded { opacity: 0.12; }
+  .node.match circle { stroke: #212121; stroke-width: 3; }
+  .node.selected circle { stroke: #212121; stroke-width: 3; }
+  .node.prereq circle { stroke: #1565c0; stroke-width: 3; }
+  .node.dependent circle { stroke: #e65100; stroke-width: 3; }
+  .edge.prereq { stroke: #1565c0; stroke-width: 2; }
+  .edge.dependent { stroke: #e65100; stroke-width: 2; }
+  .column-label { font-size: 12px; font-weight: 600; fill: #757575; }
+</style>
+</head>
+<body>
+<div id="app">
+  <div id="toolbar">
+    <input type="search" id="search" placeholder="Search concepts…" aria-label="Search concepts">
+    <label>Colour by
+      <select id="colour" aria-label="Colour by">
+        <option value="taxonomy">Taxonomy</option>
+        <option value="chapter">Chapter</option>
+      </select>
+    </label>
+    <div id="chapters"></div>
+    <button id="all">All</button>
+    <button id="none">None</button>
+    <button id="reset">Reset view</button>
+  </div>
+  <div id="main">
+    <svg id="canvas" xmlns="http://www.w3.org/2000/svg"></svg>
+    <div id="side">
+      <div id="info"><h2>${safeTitle}</h2><p>Click a concept to highlight its prerequisites (blue) and dependents (orange). Drag to pan, scroll to zoom.</p></div>
+      <h3>Legend</h3>
+      <div id="legend"></div>
+    </div>
+  </div>
+</div>
+<script>
+const DATA = ${data};
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const COL_W = 230, ROW_H = 34, MARGIN = 40, R = 8;
+
+const nodes = DATA.nodes;
+const byId = new Map(nodes.map(n => [n.id, n]));
+const prereqsOf = new Map(nodes.map(n => [n.id, []]));
+const dependentsOf = new Map(nodes.map(n => [n.id, []]));
+for (const e of DATA.edges) {
+  if (!byId.has(e.from) || !byId.has(e.to)) continue;
+  prereqsOf.get(e.to).push(e.from);
+  dependentsOf.get(e.from).push(e.to);
+}
+const chapters = [...new Set(nodes.map(n => n.chapter))].sort((a, b) => a - b);
+const visibleChapters = new Set(chapters);
+let selected = null;
+let drag = null;
+
+// Layout: one column per chapter, concepts in ID order
+chapters.forEach((ch, col) => {
+  nodes.filter(n => n.chapter === ch).sort((a, b) => a.id - b.id).forEach((n, row) => {
+    n.x = MARGIN + col * COL_W;
+    n.y = MARGIN + 30 + row * ROW_H;
+  });
+});
+
+const svg = document.getElementById('canvas');
+const root = document.createElementNS(SVG_NS, 'g');
+svg.appendChild(root);
+
+function el(tag, attrs, parent) {
+  const e = document.createElementNS(SVG_NS, tag);
+  for (const [k, v] of Object.entries(attrs)) e.setAttribute(k, v);
+  parent.appendChild(e);
+  return e;
+}
+
+chapters.forEach((ch, col) => {
+  el('text', { x: MARGIN + col * COL_W - R, y: MARGIN, class: 'column-label' }, root).textContent = 'Chapter ' + ch;
+});
+
+const edgeEls = DATA.edges.filter(e => byId.has(e.from) && byId.has(e.to)).map(e => {
+  const a = byId.get(e.from), b = byId.get(e.to);
+  const d = a.chapter === b.chapter
+    ? 'M' + a.x + ',' + a.y + ' C' + (a.x - 40) + ',' + a.y + ' ' + (b.x - 40) + ',' + b.y + ' ' + b.x + ',' + b.y
+    : 'M' + a.x + ',' + a.y + ' C' + (a.x + COL_W / 2) + ',' + a.y + ' ' + (b.x - COL_W / 2) + ',' + b.y + ' ' + b.x + ',' + b.y;
+  return { edge: e, path: el('path', { d, class: 'edge' }, root) };
+});
+
+const nodeEls = new Map();
+for (const n of nodes) {
+  const g = el('g', { class: 'node', transform: 'translate(' + n.x + ',' + n.y + ')' }, root);
+  el('circle', { r: R }, g);
+  const label = n.label.length > 28 ? n.label.slice(0, 27) + '…' : n.label;
+  el('text', { x: R + 4, y: 4 }, g).textContent = n.id + '. ' + label;
+  el('title', {}, g).textContent = n.id + '. ' + n.label + '\\nChapter ' + n.chapter + ' · ' + DATA.groups[n.group].classifierName + ' · ' + n.bloomLevel;
+  g.addEventListener('click', ev => {
+    ev.stopPropagation();
+    if (!(drag && drag.moved)) select(n.id);
+  });
+  nodeEls.set(n.id, g);
+}
+
+// Colouring
+function chapterColour(ch) {
+  return 'hsl(' + Math.round((chapters.indexOf(ch) * 360) / Math.max(chapters.length, 1)) + ', 65%, 48%)';
+}
+function colourFor(n) {
+  return document.getElementById('colour').value === 'chapter' ? chapterColour(n.chapter) : DATA.groups[n.group].color;
+}
+function applyColours() {
+  for (const n of nodes) nodeEls.get(n.id).querySelector('circle').setAttribute('fill', colourFor(n));
+  const legend = document.getElementById('legend');
+  legend.innerHTML = '';
+  const items = document.getElementById('colour').value === 'chapter'
+    ? chapters.map(ch => ['Chapter ' + ch, chapterColour(ch)])
+    : Object.values(DATA.groups).map(g => [g.classifierName, g.color]);
+  for (const [name, colour] of items) {
+    const row = document.createElement('div');
+    row.className = 'legend-item';
+    const sw = document.createElement('span');
+    sw.className = 'swatch';
+    sw.style.background = colour;
+    row.append(sw, name);
+    legend.appendChild(row);
+  }
+}
+
+// Highlighting
+function closure(start, next) {
+  const seen = new Set();
+  const queue = [...next.get(start)];
+  while (queue.length) {
+    const id = queue.shift();
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...next.get(id));
+  }
+  return seen;
+}
+
+function render() {
+  const query = document.getElementById('search').value.trim().toLowerCase();
+  const prereqs = selected !== null ? closure(selected, prereqsOf) : new Set();
+  const dependents = selected !== null ? closure(selected, dependentsOf) : new Set();
+
+  for (const n of nodes) {
+    const g = nodeEls.get(n.id);
+    const matches = query !== '' && (n.label.toLowerCase().includes(query) || String(n.id) === query);
+    const related = n.id === selected || prereqs.has(n.id) || dependents.has(n.id);
+    g.style.display = visibleChapters.has(n.chapter) ? '' : 'none';
+    g.classList.toggle('selected', n.id === selected);
+    g.classList.toggle('prereq', prereqs.has(n.id));
+    g.classList.toggle('dependent', dependents.has(n.id));
+    g.classList.toggle('match', matches);
+    g.classList.toggle('faded', (selected !== null && !related) || (query !== '' && selected === null && !matches));
+  }
+
+  for (const { edge, path } of edgeEls) {
+    const a = byId.get(edge.from), b = byId.get(edge.to);
+    const onPrereqPath = selected !== null && (edge.to === selected || prereqs.has(edge.to)) && prereqs.has(edge.from);
+    const onDependentPath = selected !== null && (edge.from === selected || dependents.has(edge.from)) && dependents.has(edge.to);
+    path.style.display = visibleChapters.has(a.chapter) && visibleChapters.has(b.chapter) ? '' : 'none';
+    path.classList.toggle('prereq', onPrereqPath);
+    path.classList.toggle('dependent', onDependentPath);
+    path.classList.toggle('faded', (selected !== null && !onPrereqPath && !onDependentPath) || (query !== '' && selected === null));
+  }
+
+  renderInfo(prereqs, dependents);
+}
+
+function listItems(ids) {
+  if (ids.length === 0) return '<p><em>None</em></p>';
+  return '<ul>' + ids.map(id => '<li data-id="' + id + '">' + id + '. ' + escapeHtml(byId.get(id).label) + '</li>').join('') + '</ul>';
+}
+function escapeHtml(s) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const defaultInfo = document.getElementById('info').innerHTML;
+function renderInfo(prereqs, dependents) {
+  if (selected === null) {
+    document.getElementById('info').innerHTML = defaultInfo;
+    return;
+  }
+  const n = byId.get(selected);
+  const sorted = set => [...set].sort((a, b) => a - b);
+  document.getElementById('info').innerHTML =
+    '<h2>' + n.id + '. ' + escapeHtml(n.label) + '</h2>' +
+    '<p>Chapter ' + n.chapter + ' · ' + escapeHtml(DATA.groups[n.group].classifierName) + ' · ' + escapeHtml(n.bloomLevel) + '</p>' +
+    '<h3>All prerequisites (' + prereqs.size + ')</h3>' + listItems(sorted(prereqs)) +
+    '<h3>All dependents (' + dependents.size + ')</h3>' + listItems(sorted(dependents));
+}
+
+function select(id) {
+  selected = selected === id ? null : id;
+  render();
+}
+
+document.getElementById('info').addEventListener('click', ev => {
+  const id = ev.target.closest && ev.target.closest('li') ? Number(ev.target.closest('li').dataset.id) : NaN;
+  if (!Number.isNaN(id)) {
+    selected = id;
+    render();
+    centreOn(byId.get(id));
+  }
+});
+
+// Chapter filters
+const chapterBox = document.getElementById('chapters');
+for (const ch of chapters) {
+  const label = document.createElement('label');
+  const box = document.createElement('input');
+  box.type = 'checkbox';
+  box.checked = true;
+  box.addEventListener('change', () => {
+    if (box.checked) visibleChapters.add(ch); else visibleChapters.delete(ch);
+    render();
+  });
+  label.append(box, ' Ch ' + ch);
+  chapterBox.appendChild(label);
+}
+function setAllChapters(on) {
+  chapterBox.querySelectorAll('input').forEach((box, i) => {
+    box.checked = on;
+    if (on) visibleChapters.add(chapters[i]); else visibleChapters.delete(chapters[i]);
+  });
+  render();
+}
+document.getElementById('all').addEventListener('click', () => setAllChapters(true));
+document.getElementById('none').addEventListener('click', () => setAllChapters(false));
+
+// Search: highlight matches and centre on the first visible one
+document.getElementById('search').addEventListener('input', () => {
+  selected = null;
+  render();
+  const query = document.getElementById('search').value.trim().toLowerCase();
+  const hit = query && nodes.find(n => visibleChapters.has(n.chapter) && (n.label.toLowerCase().includes(query) || String(n.id) === query));
+  if (hit) centreOn(hit);
+});
+document.getElementById('colour').addEventListener('change', applyColours);
+
+// Pan and zoom via the viewBox
+const width = MARGIN * 2 + Math.max(chapters.length - 1, 0) * COL_W + COL_W;
+const height = MARGIN * 2 + 30 + Math.max(0, ...chapters.map(ch => nodes.filter(n => n.chapter === ch).length)) * ROW_H;
+let view;
+function resetView() {
+  view = { x: 0, y: 0, w: width, h: height };
+  applyView();
+}
+function applyView() {
+  svg.setAttribute('viewBox', view.x + ' ' + view.y + ' ' + view.w + ' ' + view.h);
+}
+function centreOn(n) {
+  view.x = n.x - view.w / 2;
+  view.y = n.y - view.h / 2;
+  applyView();
+}
+function viewMetrics() {
+  const rect = svg.getBoundingClientRect();
+  return { rect, scale: Math.max(view.w / rect.width, view.h / rect.height) };
+}
+svg.addEventListener('wheel', ev => {
+  ev.preventDefault();
+  const factor = ev.deltaY > 0 ? 1.15 : 1 / 1.15;
+  const { rect } = viewMetrics();
+  const fx = (ev.clientX - rect.left) / rect.width, fy = (ev.clientY - rect.top) / rect.height;
+  const w = view.w * factor, h = view.h * factor;
+  view = { x: view.x + (view.w - w) * fx, y: view.y + (view.h - h) * fy, w, h };
+  applyView();
+}, { passive: false });
+svg.addEventListener('mousedown', ev => {
+  drag = { x: ev.clientX, y: ev.clientY, moved: false };
+  svg.classList.add('dragging');
+});
+window.addEventListener('mousemove', ev => {
+  if (!drag) return;
+  const { scale } = viewMetrics();
+  view.x -= (ev.clientX - drag.x) * scale;
+  view.y -= (ev.clientY - drag.y) * scale;
+  drag.moved = drag.moved || Math.abs(ev.clientX - drag.x) + Math.abs(ev.clientY - drag.y) > 2;
+  drag.x = ev.clientX;
+  drag.y = ev.clientY;
+  applyView();
+});
+window.addEventListener('mouseup', () => {
+  svg.classList.remove('dragging');
+  setTimeout(() => { drag = null; }, 0);
+});
+svg.addEventListener('click', () => {
+  if (drag && drag.moved) return;
+  if (selected !== null) { selected = null; render(); }
+});
+document.getElementById('reset').addEventListener('click', resetView);
+
+resetView();
+applyColours();
+render();
+</script>
+</body>
+</html>
+`;
+}
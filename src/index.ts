@@ -1,2 +1,22 @@
-export { runPipeline } from './pipeline.js';
-export type { TextbookConfig, PipelineContext, CourseDescription, Concept, ChapterOutline } from './types.js';
+export { runPipeline, STEP_IDS } from './pipeline.js';
+export { findLearningPath, resolveConcept, type LearningPath } from './graph/path.js';
+export {
+  createProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  FakeProvider,
+  RecordingProvider,
+  ReplayProvider,
+  CassetteMissError,
+} from './providers/index.js';
+export type {
+  TextbookConfig,
+  PipelineContext,
+  CourseDescription,
+  Concept,
+  ChapterOutline,
+  LLMProvider,
+  ProviderName,
+  GenerateRequest,
+  GenerateResponse,
+} from './types.js';
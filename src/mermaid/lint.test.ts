@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintMermaid } from './lint.js';
+
+const VALID: Record<string, string> = {
+  flowchart: `flowchart TD
+    A[Start] --> B{"Is it (x) valid?"}
+    B -->|Yes| C((Done))
+    B -->|No| D>Retry]
+    subgraph Loop
+      direction LR
+      D --> A
+    end`,
+  graph: `graph LR
+    A --> B`,
+  sequenceDiagram: `sequenceDiagram
+    participant A as Alice
+    actor B as Bob
+    A->>B: Hello
+    loop Every minute
+      B-->>A: Still here
+    end
+    Note over A,B: A note`,
+  classDiagram: `classDiagram
+    class Animal {
+      +String name
+      +eat(food) void
+    }
+    Animal <|-- Dog
+    Animal "1" --> "*" Leg`,
+  stateDiagram: `stateDiagram-v2
+    [*] --> Idle
+    state Busy {
+      [*] --> Working
+      Working --> [*]
+    }
+    Idle --> Busy: start`,
+  erDiagram: `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ LINE-ITEM : contains
+    CUSTOMER }|..|{ DELIVERY-ADDRESS : uses
+    PRODUCT }o--o| CATEGORY : "belongs to"
+    CUSTOMER {
+      string name
+      int id PK
+    }`,
+  gantt: `gantt
+    title Plan
+    dateFormat YYYY-MM-DD
+    section Build
+    Design :a1, 2024-01-01, 7d
+    Code :after a1, 14d`,
+  pie: `pie title Pets
+    "Dogs" : 386
+    "Cats (indoor)" : 85`,
+  journey: `journey
+    title My day
+    section Work
+      Write code (focus): 5: Me`,
+  mindmap: `mindmap
+  root((Topic))
+    Branch A
+      Leaf (detail)`,
+  timeline: `timeline
+    title History
+    1940s : ENIAC (first computer)`,
+  gitGraph: `gitGraph
+    commit
+    branch develop
+    checkout develop
+    commit
+    checkout main
+    merge develop`,
+};
+
+for (const [type, source] of Object.entries(VALID)) {
+  test(`accepts a valid ${type} diagram`, () => {
+    assert.deepEqual(lintMermaid(source), []);
+  });
+}
+
+test('accepts a header ending in a semicolon or comment', () => {
+  assert.deepEqual(lintMermaid('graph TD;\n    A --> B'), []);
+  assert.deepEqual(lintMermaid('flowchart LR %% left to right\n    A --> B'), []);
+});
+
+test('accepts classDiagram-v2', () => {
+  assert.deepEqual(lintMermaid('classDiagram-v2\n    Animal <|-- Dog'), []);
+});
+
+test('still reports an unknown direction', () => {
+  const issues = lintMermaid('graph XY;\n    A --> B');
+  assert.deepEqual(issues.map(i => i.message), ['unknown direction "XY" (expected TB, TD, BT, RL, LR)']);
+});
+
+test('still reports an unclosed brace in an erDiagram entity', () => {
+  const issues = lintMermaid('erDiagram\n    CUSTOMER ||--o{ ORDER : places\n    CUSTOMER {\n      string name');
+  assert.deepEqual(issues.map(i => i.message), ['unbalanced brackets: "{" is never closed']);
+});
+
+test('reports an unquoted parenthesis in a flowchart label', () => {
+  const issues = lintMermaid('flowchart TD\n    A[Start (here)] --> B');
+  assert.equal(issues.length, 1);
+  assert.match(issues[0].message, /wrap the label in double quotes/);
+});
@@ -0,0 +1,285 @@
+export interface MermaidIssue {
+  /** 1-based line within the diagram source. */
+  line: number;
+  message: string;
+}
+
+export interface MermaidBlock {
+  /** 0-based line index of the opening fence in the markdown document. */
+  start: number;
+  /** 0-based line index of the closing fence. */
+  end: number;
+  source: string;
+}
+
+const DIAGRAM_TYPES = [
+  'flowchart', 'graph', 'sequenceDiagram', 'classDiagram', 'classDiagram-v2', 'stateDiagram',
+  'stateDiagram-v2', 'erDiagram', 'gantt', 'pie', 'journey', 'mindmap', 'timeline', 'gitGraph',
+  'quadrantChart', 'requirementDiagram', 'xychart-beta', 'sankey-beta', 'block-beta', 'C4Context', 'C4Container',
+  'C4Component', 'C4Dynamic', 'C4Deployment',
+];
+
+const DIRECTIONS = ['TB', 'TD', 'BT', 'RL', 'LR'];
+
+const DIRECTIVES = ['init', 'initialize', 'wrap'];
+
+const FLOWCHART_KEYWORDS = /^(subgraph\b|end$|classDef\s|class\s|style\s|linkStyle\s|click\s|direction\s)/;
+
+const SEQUENCE_STATEMENT = new RegExp([
+  String.raw`^(participant|actor)\s+.+$`,
+  String.raw`^(create\s+(participant|actor)|destroy)\s+.+$`,
+  String.raw`^(activate|deactivate)\s+\S+$`,
+  String.raw`^autonumber\b.*$`,
+  String.raw`^title\b.*$`,
+  String.raw`^(note|Note)\s+(left of|right of|over)\s+[^:]+:.*$`,
+  String.raw`^(loop|alt|opt|par|critical|break|rect|box)\b.*$`,
+  String.raw`^(else|and|option)\b.*$`,
+  String.raw`^end$`,
+  String.raw`^[^\s:;-][^:;]*?\s*(-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*[^:;]+:.*$`,
+].join('|'));
+
+const SEQUENCE_BLOCKS = /^(loop|alt|opt|par|critical|break|rect|box)\b/;
+
+/** erDiagram relationship cardinality, e.g. "||--o{" or "}|..|{", whose braces are not brackets. */
+const ER_CARDINALITY = /[|}][o|](?:--|\.\.)[o|][|{]/g;
+
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(PAIRS));
+
+/**
+ * Find every fenced ```mermaid block in a markdown document.
+ */
+export function findMermaidBlocks(markdown: string): MermaidBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: MermaidBlock[] = [];
+  let open: { start: number; fence: string } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (open) {
+      if (trimmed === open.fence) {
+        blocks.push({ start: open.start, end: i, source: lines.slice(open.start + 1, i).join('\n') });
+        open = null;
+      }
+      continue;
+    }
+    const fence = trimmed.match(/^(`{3,}|~{3,})\s*mermaid\s*$/)?.[1];
+    if (fence) open = { start: i, fence };
+  }
+  return blocks;
+}
+
+/**
+ * Replace the body of a block found by findMermaidBlocks, keeping its fences.
+ */
+export function replaceMermaidBlock(markdown: string, block: MermaidBlock, source: string): string {
+  const lines = markdown.split('\n');
+  lines.splice(block.start + 1, block.end - block.start - 1, ...source.split('\n'));
+  return lines.join('\n');
+}
+
+/** Remove double-quoted strings so their contents are not mistaken for syntax. */
+function stripQuoted(line: string): string {
+  return line.replace(/"[^"]*"/g, '""');
+}
+
+/**
+ * Bracket balance of one line, ignoring quoted text. Returns a problem
+ * description, or null when balanced.
+ */
+function bracketProblem(line: string): string | null {
+  const stack: string[] = [];
+  for (const ch of stripQuoted(line)) {
+    if (PAIRS[ch]) stack.push(ch);
+    else if (CLOSERS.has(ch)) {
+      const opener = stack.pop();
+      if (!opener || PAIRS[opener] !== ch) return `unbalanced brackets: unexpected "${ch}"`;
+    }
+  }
+  return stack.length > 0 ? `unbalanced brackets: "${stack[stack.length - 1]}" is never closed` : null;
+}
+
+/**
+ * Node labels (text inside a node shape such as A[...], B((...)), C{...})
+ * and edge labels (|...|) of a flowchart line.
+ */
+function flowchartLabels(line: string): string[] {
+  const labels: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inQuote = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuote = !inQuote;
+    if (inQuote) continue;
+    if (PAIRS[ch]) {
+      if (depth === 0) start = i + 1;
+      depth++;
+    } else if (CLOSERS.has(ch) && depth > 0) {
+      depth--;
+      if (depth === 0) labels.push(line.slice(start, i));
+    }
+  }
+
+  for (const m of stripQuoted(line).matchAll(/\|([^|]*)\|/g)) labels.push(m[1]);
+  return labels;
+}
+
+/** Strip the inner delimiters of double shapes like ((x)), ([x]), [[x]], [(x)], {{x}}, [/x/]. */
+function innerLabel(label: string): string {
+  const inner = label.trim();
+  if (/^[([{/\\]/.test(inner) && /[)\]}/\\]$/.test(inner) && inner.length >= 2) return inner.slice(1, -1).trim();
+  return inner;
+}
+
+function lintFlowchart(lines: string[], issues: MermaidIssue[], offset: number): void {
+  let subgraphs = 0;
+  lines.forEach((raw, i) => {
+    // Asymmetric shapes (id>label]) open with ">"; rewrite them as [label] for the bracket checks
+    const line = raw.trim().replace(/\b(\w+)>([^\]>]*)\]/g, '$1[$2]');
+    const lineNo = i + offset;
+    if (line === '' || line.startsWith('%%')) return;
+
+    if (/^subgraph\b/.test(line)) subgraphs++;
+    if (line === 'end') subgraphs--;
+    if (subgraphs < 0) {
+      issues.push({ line: lineNo, message: '"end" without a matching "subgraph"' });
+      subgraphs = 0;
+    }
+    if (/^direction\s/.test(line) && !DIRECTIONS.includes(line.split(/\s+/)[1])) {
+      issues.push({ line: lineNo, message: `unknown direction "${line.split(/\s+/)[1]}"` });
+    }
+    if (FLOWCHART_KEYWORDS.test(line) && !/^subgraph\b/.test(line)) return;
+
+    const brackets = bracketProblem(line);
+    if (brackets) {
+      issues.push({ line: lineNo, message: brackets });
+      return;
+    }
+    for (const label of flowchartLabels(line)) {
+      const text = innerLabel(label);
+      if (/^".*"$/.test(text)) continue;
+      const special = text.match(/[()[\]{}"]/)?.[0];
+      if (special) {
+        issues.push({ line: lineNo, message: `label "${text}" contains "${special}" — wrap the label in double quotes` });
+      }
+    }
+  });
+  if (subgraphs > 0) issues.push({ line: offset + lines.length - 1, message: `${subgraphs} "subgraph" block(s) missing "end"` });
+}
+
+function lintSequence(lines: string[], issues: MermaidIssue[], offset: number): void {
+  let blocks = 0;
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    const lineNo = i + offset;
+    if (line === '' || line.startsWith('%%')) return;
+
+    if (SEQUENCE_BLOCKS.test(line)) blocks++;
+    if (line === 'end') {
+      blocks--;
+      if (blocks < 0) {
+        issues.push({ line: lineNo, message: '"end" without a matching loop/alt/opt/par/critical/break/rect block' });
+        blocks = 0;
+      }
+      return;
+    }
+    if (!SEQUENCE_STATEMENT.test(line)) {
+      issues.push({ line: lineNo, message: `unknown sequence diagram statement "${line}"` });
+      return;
+    }
+    const text = line.match(/:(.*)$/)?.[1] ?? '';
+    if (/(->|--)/.test(line.split(':')[0]) && text.includes(';')) {
+      issues.push({ line: lineNo, message: 'message text contains ";" — use "#59;" instead' });
+    }
+  });
+  if (blocks > 0) issues.push({ line: offset + lines.length - 1, message: `${blocks} block(s) missing "end"` });
+}
+
+/** Checks shared by every other diagram type: quotes per line and braces across the diagram. */
+function lintGeneric(lines: string[], issues: MermaidIssue[], offset: number, type: string): void {
+  let braces = 0;
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('%%')) return;
+    let stripped = stripQuoted(line);
+    if (type === 'erDiagram') stripped = stripped.replace(ER_CARDINALITY, '--');
+    braces += (stripped.match(/\{/g)?.length ?? 0) - (stripped.match(/\}/g)?.length ?? 0);
+    if (braces < 0) {
+      issues.push({ line: i + offset, message: 'unbalanced brackets: unexpected "}"' });
+      braces = 0;
+    }
+    const withoutBraces = stripped.replace(/[{}]/g, '');
+    const brackets = bracketProblem(withoutBraces);
+    if (brackets) issues.push({ line: i + offset, message: brackets });
+  });
+  if (braces > 0) issues.push({ line: offset + lines.length - 1, message: 'unbalanced brackets: "{" is never closed' });
+}
+
+/**
+ * Check a Mermaid diagram offline for the mistakes that most often break
+ * rendering: unknown diagram types or directives, unbalanced brackets,
+ * unterminated quotes and unquoted special characters in labels. Flowcharts
+ * and sequence diagrams get statement-level checks; other types get the
+ * bracket and quote checks.
+ */
+export function lintMermaid(source: string): MermaidIssue[] {
+  const issues: MermaidIssue[] = [];
+  const lines = source.split('\n');
+  let i = 0;
+
+  // Optional YAML front matter (--- ... ---) and %%{ directives }%% before the header
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, n) => n > 0 && l.trim() === '---');
+    if (close === -1) return [{ line: 1, message: 'front matter "---" is never closed' }];
+    i = close + 1;
+  }
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || (line.startsWith('%%') && !line.startsWith('%%{'))) continue;
+    const directive = line.match(/^%%\{\s*(\w+)/);
+    if (directive) {
+      if (!DIRECTIVES.includes(directive[1])) {
+        issues.push({ line: i + 1, message: `unknown directive "%%{${directive[1]}" (expected ${DIRECTIVES.join(', ')})` });
+      }
+      continue;
+    }
+    break;
+  }
+
+  // Mermaid accepts a trailing semicolon or comment after the header (graph TD; / graph TD %% ...)
+  const header = (lines[i] ?? '').replace(/%%.*$/, '').trim().replace(/;$/, '');
+  const [type, direction] = header.split(/\s+/);
+  if (!type) return [...issues, { line: 1, message: 'empty diagram' }];
+  if (!DIAGRAM_TYPES.includes(type)) {
+    return [...issues, { line: i + 1, message: `unknown diagram type "${type}" (expected one of ${DIAGRAM_TYPES.slice(0, 8).join(', ')}, ...)` }];
+  }
+
+  const body = lines.slice(i + 1);
+  const offset = i + 2;
+
+  body.forEach((raw, n) => {
+    const stripped = raw.replace(/%%.*$/, '');
+    if ((stripped.match(/"/g)?.length ?? 0) % 2 === 1) {
+      issues.push({ line: n + offset, message: 'unterminated double quote' });
+    }
+    if (/^\s*%%\{/.test(raw)) {
+      issues.push({ line: n + offset, message: 'directives must come before the diagram type' });
+    }
+  });
+
+  if (type === 'flowchart' || type === 'graph') {
+    if (direction && !DIRECTIONS.includes(direction)) {
+      issues.push({ line: i + 1, message: `unknown direction "${direction}" (expected ${DIRECTIONS.join(', ')})` });
+    }
+    lintFlowchart(body, issues, offset);
+  } else if (type === 'sequenceDiagram') {
+    lintSequence(body, issues, offset);
+  } else if (type !== 'mindmap' && type !== 'timeline' && type !== 'journey') {
+    // Mindmaps, timelines and journeys use free text where brackets carry no structure
+    lintGeneric(body, issues, offset, type);
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,150 @@
+import type { Concept, SimEngine } from '../types.js';
+
+export const SIM_ENGINES: SimEngine[] = ['chartjs', 'p5', 'vis-network', 'svg'];
+
+export interface SimLibrary {
+  /** npm package the offline copy is taken from. */
+  package: string;
+  /** Script file within the package. */
+  file: string;
+  /** Licence file within the package, copied alongside the script. */
+  license: string;
+  cdn: string;
+  /** Path of the bundled copy, relative to docs/microsims/. */
+  local: string;
+  /** Recognises a CDN script URL for this library. */
+  pattern: RegExp;
+}
+
+export interface EngineProfile {
+  id: SimEngine;
+  label: string;
+  /** What kind of concept the engine suits, for the sims index. */
+  bestFor: string;
+  /** Concept-name keywords that select this engine. */
+  keywords: RegExp;
+  /** External script the sim loads; plain SVG needs none. */
+  library: SimLibrary | null;
+  /** Engine-specific technical requirements for the prompt. */
+  requirements: string[];
+  /** Engine-specific JavaScript rules for the prompt. */
+  scripting: string[];
+  /** Placeholder for the drawing surface in the prompt's HTML skeleton. */
+  surface: string;
+}
+
+export const ENGINES: Record<SimEngine, EngineProfile> = {
+  chartjs: {
+    id: 'chartjs',
+    label: 'Chart.js',
+    bestFor: 'quantitative trade-offs and parameter sweeps',
+    keywords: /\b(rate|cost|trade-?offs?|distribution|probabilit|statistic|performance|comparison|optimi[sz]|efficien|price|pricing|budget|metric|measure|variance|regression|ratio|percent|return|yield|risk|error|accuracy|complexity|scaling|curve)/i,
+    library: {
+      package: 'chart.js',
+      file: 'dist/chart.umd.js',
+      license: 'LICENSE.md',
+      cdn: 'https://cdn.jsdelivr.net/npm/chart.js',
+      local: 'lib/chart.umd.js',
+      pattern: /chart(?:\.umd)?(?:\.min)?\.js|npm\/chart\.js(?:@[^/"']*)?$/i,
+    },
+    requirements: [
+      'Draw the chart with Chart.js into a single `<canvas id="chart">`',
+      'Label both axes and give the chart a title',
+    ],
+    scripting: [
+      'Declare the Chart instance outside the update function',
+      'Destroy and recreate the chart on updates, OR use `chart.data` mutation + `chart.update()`',
+    ],
+    surface: '<canvas id="chart"></canvas>',
+  },
+  p5: {
+    id: 'p5',
+    label: 'p5.js',
+    bestFor: 'animated and physical processes',
+    keywords: /\b(motion|waves?|oscillat|particles?|orbits?|physic|dynamics?|diffusion|decay|propagat|evolution|random walk|animat|collision|velocity|acceleration|gravity|population|spread|entropy|momentum|pendulum|equilibrium|interference|superposition|signal)/i,
+    library: {
+      package: 'p5',
+      file: 'lib/p5.min.js',
+      license: 'license.txt',
+      cdn: 'https://cdn.jsdelivr.net/npm/p5@1/lib/p5.min.js',
+      local: 'lib/p5.min.js',
+      pattern: /\bp5(?:@[^/"']*)?(?:\/lib)?\/p5(?:\.min)?\.js|\/p5(?:\.min)?\.js/i,
+    },
+    requirements: [
+      'Use p5.js in instance mode: `new p5(sketch, \'sim-container\')` — do not define global `setup()` or `draw()` functions',
+      'Create the canvas with `p.createCanvas(...)` in `p.setup`, and animate the process in `p.draw`',
+      'Use plain HTML `<input>` controls for the parameters (not `p.createSlider`), and read their values in `p.draw` or in the input listeners',
+    ],
+    scripting: [
+      'Keep the simulation state (positions, velocities, time) in variables outside `p.draw`',
+      'Provide a Pause/Play or Reset button when the animation runs continuously',
+    ],
+    surface: '<div id="sim-container"></div>',
+  },
+  'vis-network': {
+    id: 'vis-network',
+    label: 'vis-network',
+    bestFor: 'relationships, hierarchies and networks',
+    keywords: /\b(network|graphs?|relationships?|hierarch|trees?|dependenc|connect|topolog|links?|nodes?|ecosystem|taxonom|social|routing|inheritance|ontolog|supply chain|pathways?)/i,
+    library: {
+      package: 'vis-network',
+      file: 'standalone/umd/vis-network.min.js',
+      license: 'LICENSE-MIT',
+      cdn: 'https://unpkg.com/vis-network/standalone/umd/vis-network.min.js',
+      local: 'lib/vis-network.min.js',
+      pattern: /vis-network(?:@[^/"']*)?\/.*vis-network(?:\.min)?\.js|vis(?:-network)?(?:\.min)?\.js$/i,
+    },
+    requirements: [
+      'Use the standalone vis-network build: build nodes and edges with `vis.DataSet` and render them with `new vis.Network(container, { nodes, edges }, options)`',
+      'Give the network container `<div id="network">` an explicit height (e.g. 450px)',
+      'Inputs change the graph — filter nodes, add or remove edges, change weights or layout — via `nodes.update()` / `edges.update()` or `network.setData()`',
+    ],
+    scripting: [
+      'Keep the `vis.DataSet` instances and the `vis.Network` outside the update function',
+      'Colour nodes by role and label edges with the relationship they represent',
+    ],
+    surface: '<div id="network" style="height:450px"></div>',
+  },
+  svg: {
+    id: 'svg',
+    label: 'SVG',
+    bestFor: 'diagrams, structures and processes',
+    keywords: /\b(diagram|circuits?|geometr|anatomy|architecture|layout|cycles?|process|pipeline|components?|lifecycle|shapes?|angles?|vectors?|gates?|layers?|stack|sequence|flow|protocol|mechanism)/i,
+    library: null,
+    requirements: [
+      'Use plain inline SVG and vanilla JavaScript — no libraries',
+      'Draw in a single `<svg id="diagram">` with a `viewBox`, creating elements with `document.createElementNS(\'http://www.w3.org/2000/svg\', ...)`',
+      'Inputs change the diagram by updating SVG element attributes (positions, sizes, colours, labels)',
+    ],
+    scripting: [
+      'Write one `render()` function that redraws the diagram from the current input values',
+      'Label every part of the diagram with `<text>` elements',
+    ],
+    surface: '<svg id="diagram" viewBox="0 0 800 450"></svg>',
+  },
+};
+
+/**
+ * Parse a comma-separated engine list (e.g. from --sim-engines).
+ */
+export function parseSimEngines(list: string): SimEngine[] {
+  const engines = list.split(',').map(e => e.trim()).filter(Boolean);
+  const unknown = engines.filter(e => !SIM_ENGINES.includes(e as SimEngine));
+  if (unknown.length > 0 || engines.length === 0) {
+    throw new Error(`Unknown sim engine(s) "${unknown.join(', ') || list}". Valid engines: ${SIM_ENGINES.join(', ')}`);
+  }
+  return [...new Set(engines)] as SimEngine[];
+}
+
+/**
+ * Pick the engine that suits a concept: p5.js for animated or physical
+ * processes, vis-network for relationships, Chart.js for quantitative
+ * trade-offs, SVG for diagrams. Falls back to Chart.js, or the first allowed
+ * engine, when no keyword matches.
+ */
+export function chooseEngine(concept: Pick<Concept, 'name'>, allowed: SimEngine[] = SIM_ENGINES): SimEngine {
+  const match = (['p5', 'vis-network', 'chartjs', 'svg'] as SimEngine[]).find(
+    e => allowed.includes(e) && ENGINES[e].keywords.test(concept.name)
+  );
+  return match ?? (allowed.includes('chartjs') ? 'chartjs' : allowed[0]);
+}
@@ -0,0 +1,157 @@
+import type { MicroSimMetadata } from './metadata.js';
+
+const BLOOM_ORDER = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+/**
+ * Self-contained MicroSim gallery page built from the sims' metadata: the
+ * metadata is inlined as JSON and rendered as cards by a small script, so the
+ * page works offline with no CDN.
+ *
+ * Cards can be filtered by chapter, Bloom's level and library, and searched by
+ * title, description, concept and control labels.
+ */
+export function buildSimGalleryHtml(title: string, sims: MicroSimMetadata[]): string {
+  // Escape "<" so sim text can never close the inline <script>
+  const data = JSON.stringify(sims).replace(/</g, '\\u003c');
+  const bloom = JSON.stringify(BLOOM_ORDER);
+  const safeTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>MicroSim Gallery: ${safeTitle}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 12px; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #212121; background: #fff; }
+  #filters { display: flex; flex-wrap: wrap; gap: 8px 16px; align-items: center; padding: 8px 12px; margin-bottom: 12px;
+             border: 1px solid #e0e0e0; border-radius: 6px; background: #fafafa; }
+  #filters input[type=search] { padding: 4px 8px; border: 1px solid #bdbdbd; border-radius: 4px; min-width: 200px; }
+  #filters select { padding: 3px 6px; border: 1px solid #bdbdbd; border-radius: 4px; background: #fff; }
+  #filters button { padding: 3px 8px; border: 1px solid #bdbdbd; border-radius: 4px; background: #fff; cursor: pointer; }
+  #count { margin-left: auto; color: #616161; }
+  #cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(250px, 1fr)); gap: 12px; }
+  .card { display: flex; flex-direction: column; border: 1px solid #e0e0e0; border-radius: 8px; padding: 12px 14px; }
+  .card h2 { font-size: 15px; margin: 0 0 6px; }
+  .card h2 a { color: #1a237e; text-decoration: none; }
+  .card h2 a:hover { text-decoration: underline; }
+  .card p { margin: 0 0 8px; color: #424242; }
+  .tags { display: flex; flex-wrap: wrap; gap: 4px; margin-bottom: 8px; }
+  .tag { font-size: 11px; padding: 1px 8px; border-radius: 10px; background: #e8eaf6; color: #1a237e; }
+  .tag.bloom { background: #fff3e0; color: #e65100; }
+  .tag.library { background: #e8f5e9; color: #1b5e20; }
+  .controls { font-size: 12px; color: #616161; margin-bottom: 8px; }
+  .links { margin-top: auto; font-size: 12px; display: flex; gap: 12px; }
+  .links a { color: #3949ab; }
+  #empty { display: none; padding: 24px; text-align: center; color: #757575; }
+</style>
+</head>
+<body>
+<div id="filters">
+  <input type="search" id="search" placeholder="Search MicroSims…" aria-label="Search MicroSims">
+  <label>Chapter <select id="chapter"><option value="">All</option></select></label>
+  <label>Bloom's level <select id="bloom"><option value="">All</option></select></label>
+  <label>Library <select id="library"><option value="">All</option></select></label>
+  <button id="reset" type="button">Clear filters</button>
+  <span id="count" role="status" aria-live="polite"></span>
+</div>
+<div id="cards"></div>
+<div id="empty">No MicroSims match these filters.</div>
+<script>
+const SIMS = ${data};
+const BLOOM_ORDER = ${bloom};
+
+function el(tag, className, text) {
+  const e = document.createElement(tag);
+  if (className) e.className = className;
+  if (text !== undefined) e.textContent = text;
+  return e;
+}
+
+function fillSelect(id, values, label) {
+  const select = document.getElementById(id);
+  for (const v of values) {
+    const option = el('option', '', label(v));
+    option.value = String(v);
+    select.appendChild(option);
+  }
+}
+
+const chapters = [...new Map(SIMS.map(s => [s.chapter, s.chapterTitle])).entries()].sort((a, b) => a[0] - b[0]);
+fillSelect('chapter', chapters.map(c => c[0]), n => {
+  const t = chapters.find(c => c[0] === n)[1];
+  return 'Chapter ' + n + (t ? ': ' + t : '');
+});
+const levels = [...new Set(SIMS.map(s => s.bloomLevel))];
+levels.sort((a, b) => (BLOOM_ORDER.indexOf(a) + 1 || 99) - (BLOOM_ORDER.indexOf(b) + 1 || 99));
+fillSelect('bloom', levels, v => v);
+fillSelect('library', [...new Set(SIMS.map(s => s.library))].sort(), v => v);
+
+// MkDocs serves microsim-NN.md at microsim-NN/; links open in the top window, not this iframe
+const cards = SIMS.map(s => {
+  const card = el('article', 'card');
+  const h2 = el('h2');
+  const link = el('a', '', s.title);
+  link.href = s.page.replace(/\\.md$/, '/');
+  link.target = '_top';
+  h2.appendChild(link);
+  card.appendChild(h2);
+  card.appendChild(el('p', '', s.description));
+
+  const tags = el('div', 'tags');
+  tags.appendChild(el('span', 'tag', 'Chapter ' + s.chapter));
+  tags.appendChild(el('span', 'tag bloom', s.bloomLevel));
+  tags.appendChild(el('span', 'tag library', s.library));
+  card.appendChild(tags);
+
+  if (s.controls.length > 0) {
+    card.appendChild(el('div', 'controls', 'Controls: ' + s.controls.map(c => c.label).join(', ')));
+  }
+
+  const links = el('div', 'links');
+  const open = el('a', '', 'Open full screen');
+  open.href = s.file;
+  open.target = '_blank';
+  const meta = el('a', '', 'Metadata (JSON)');
+  meta.href = s.identifier + '.metadata.json';
+  meta.target = '_blank';
+  links.appendChild(open);
+  links.appendChild(meta);
+  card.appendChild(links);
+
+  document.getElementById('cards').appendChild(card);
+  const text = [s.title, s.description, s.concept, ...s.controls.map(c => c.label)].join(' ').toLowerCase();
+  return { sim: s, card, text };
+});
+
+function applyFilters() {
+  const query = document.getElementById('search').value.trim().toLowerCase();
+  const chapter = document.getElementById('chapter').value;
+  const bloom = document.getElementById('bloom').value;
+  const library = document.getElementById('library').value;
+  let shown = 0;
+  for (const { sim, card, text } of cards) {
+    const visible = (!query || text.includes(query))
+      && (!chapter || String(sim.chapter) === chapter)
+      && (!bloom || sim.bloomLevel === bloom)
+      && (!library || sim.library === library);
+    card.style.display = visible ? '' : 'none';
+    if (visible) shown++;
+  }
+  document.getElementById('count').textContent = 'Showing ' + shown + ' of ' + SIMS.length;
+  document.getElementById('empty').style.display = shown === 0 ? 'block' : 'none';
+}
+
+for (const id of ['search', 'chapter', 'bloom', 'library']) {
+  document.getElementById(id).addEventListener('input', applyFilters);
+}
+document.getElementById('reset').addEventListener('click', () => {
+  for (const id of ['search', 'chapter', 'bloom', 'library']) document.getElementById(id).value = '';
+  applyFilters();
+});
+applyFilters();
+</script>
+</body>
+</html>`;
+}
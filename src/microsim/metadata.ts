@@ -0,0 +1,105 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { JSDOM } from 'jsdom';
+import type { SimEngine } from '../types.js';
+
+/** A parameter control on a MicroSim, as found in its HTML. */
+export interface SimControl {
+  id: string;
+  label: string;
+  type: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  value?: string;
+  /** Choices of a <select>. */
+  options?: string[];
+}
+
+/**
+ * Dublin Core-style description of one MicroSim, written next to it as
+ * microsim-NN.metadata.json so sims can be found and reused across books.
+ */
+export interface MicroSimMetadata {
+  identifier: string;
+  title: string;
+  description: string;
+  /** The book topic and the concept the sim illustrates. */
+  subject: string[];
+  /** Title of the textbook the sim belongs to. */
+  isPartOf: string;
+  conceptId: number;
+  concept: string;
+  chapter: number;
+  chapterTitle?: string;
+  bloomLevel: string;
+  engine: SimEngine;
+  /** Rendering library label: Chart.js, p5.js, vis-network or SVG. */
+  library: string;
+  controls: SimControl[];
+  /** Wrapper page and raw HTML file, relative to docs/microsims/. */
+  page: string;
+  file: string;
+  type: 'InteractiveResource';
+  format: 'text/html';
+  language: string;
+  /** Generation date (YYYY-MM-DD). */
+  date: string;
+  creator: string;
+  /** Model that wrote the sim. */
+  contributor: string;
+}
+
+/** Sidecar file name for a sim, e.g. microsim-03.metadata.json. */
+export function metadataFile(simNumber: number): string {
+  return `microsim-${String(simNumber).padStart(2, '0')}.metadata.json`;
+}
+
+/**
+ * Parameter controls in a sim: its inputs and selects (not buttons or
+ * checkboxes), each with its label text minus any live value readout.
+ */
+export function extractControls(html: string): SimControl[] {
+  const { document } = new JSDOM(html).window;
+  const number = (value: string | null) => (value === null || value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+  return [...document.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input, select')]
+    .filter(el => !['hidden', 'button', 'submit', 'reset', 'checkbox', 'radio'].includes(el.type))
+    .map(el => {
+      let label = el.getAttribute('aria-label') ?? '';
+      const labelEl = el.labels?.[0];
+      if (labelEl) {
+        const copy = labelEl.cloneNode(true) as HTMLElement;
+        copy.querySelectorAll('output, span[id], input, select').forEach(child => child.remove());
+        label = copy.textContent ?? '';
+      }
+      const control: SimControl = {
+        id: el.id || el.name,
+        label: label.replace(/\s+/g, ' ').trim().replace(/\s*[:=]$/, '') || el.id || el.name,
+        type: el.tagName === 'SELECT' ? 'select' : el.type,
+      };
+      if (el instanceof document.defaultView!.HTMLSelectElement) {
+        control.options = [...el.options].map(o => o.textContent?.trim() ?? o.value);
+      } else {
+        control.min = number(el.getAttribute('min'));
+        control.max = number(el.getAttribute('max'));
+        control.step = number(el.getAttribute('step'));
+      }
+      control.value = el.getAttribute('value') ?? el.value;
+      return control;
+    });
+}
+
+/** Read every sim's metadata sidecar from docs/microsims/, in sim order. */
+export async function loadSimMetadata(simsDir: string): Promise<MicroSimMetadata[]> {
+  let files: string[];
+  try {
+    files = (await readdir(simsDir)).filter(f => /^microsim-\d+\.metadata\.json$/.test(f));
+  } catch {
+    return [];
+  }
+  const sims = await Promise.all(
+    files.map(async f => JSON.parse(await readFile(join(simsDir, f), 'utf8')) as MicroSimMetadata)
+  );
+  return sims.sort((a, b) => a.identifier.localeCompare(b.identifier, undefined, { numeric: true }));
+}
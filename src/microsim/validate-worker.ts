@@ -0,0 +1,7 @@
+import { checkMicroSim, type MicroSimCheckOptions } from './validate.js';
+
+// Child process for validateMicroSim: checks one sim and sends back its errors
+process.once('message', async message => {
+  const { html, options } = message as { html: string; options: MicroSimCheckOptions };
+  process.send!(await checkMicroSim(html, options));
+});
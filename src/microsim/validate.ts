@@ -0,0 +1,442 @@
+import { fork } from 'node:child_process';
+import { availableParallelism } from 'node:os';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { JSDOM, VirtualConsole, type DOMWindow } from 'jsdom';
+import type { SimEngine } from '../types.js';
+import { ENGINES } from './engines.js';
+import { findRemoteUrls } from './vendor.js';
+
+/** Number of labelled parameter inputs a MicroSim must have. */
+export const SIM_INPUTS = { min: 2, max: 4 };
+
+/** How long to wait for the page's load event before giving up. */
+const LOAD_TIMEOUT_MS = 3000;
+
+/** Hard limit for a whole validation, so a script that never returns cannot hang the pipeline. */
+const VALIDATION_TIMEOUT_MS = 20000;
+
+/** Validations running at once. Each is a CPU-bound jsdom process, so this follows the core count. */
+const MAX_VALIDATIONS = Math.min(4, availableParallelism());
+
+let runningValidations = 0;
+const waitingValidations: (() => void)[] = [];
+
+export interface MicroSimCheckOptions {
+  engine?: SimEngine;
+  offline?: boolean;
+}
+
+/** What the engine stand-ins saw the page do. */
+interface EngineProbe {
+  charts: number;
+  sketches: number;
+  /** Containers passed to vis.Network. */
+  networks: unknown[];
+}
+
+/**
+ * An object that accepts any property access, assignment or call, standing in
+ * for Chart.defaults, the canvas 2D context and unstubbed library APIs.
+ */
+function permissive(): unknown {
+  const target = function () {} as unknown as Record<string | symbol, unknown>;
+  return new Proxy(target, {
+    get: (obj, key) => (key === Symbol.toPrimitive ? () => '' : key in obj ? obj[key] : (obj[key] = permissive())),
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    },
+    apply: () => permissive(),
+  });
+}
+
+/** Wrap an object so that members it lacks are permissive stand-ins. */
+function withFallback<T extends object>(obj: T): T {
+  return new Proxy(obj, {
+    get: (target, key, receiver) =>
+      key in target || typeof key === 'symbol' ? Reflect.get(target, key, receiver) : permissive(),
+  });
+}
+
+function installChartJs(win: Record<string, unknown>, probe: EngineProbe): void {
+  class Chart {
+    static defaults = permissive();
+    static register() {}
+    data: unknown;
+    options: unknown;
+    config: unknown;
+    constructor(_item: unknown, config: { data?: unknown; options?: unknown } = {}) {
+      probe.charts++;
+      this.config = config;
+      this.data = config.data ?? {};
+      this.options = config.options ?? {};
+    }
+    update() {}
+    destroy() {}
+    resize() {}
+    reset() {}
+    render() {}
+  }
+  win.Chart = Chart;
+}
+
+/**
+ * A p5 stand-in for instance mode: runs the sketch, then setup() and one
+ * draw() once the page has loaded, as p5 does. createCanvas() adds a real
+ * <canvas>, and the maths helpers return real numbers so loops terminate.
+ */
+function installP5(window: DOMWindow, probe: EngineProbe): void {
+  const { document } = window;
+  const maths = {
+    PI: Math.PI,
+    TWO_PI: Math.PI * 2,
+    HALF_PI: Math.PI / 2,
+    QUARTER_PI: Math.PI / 4,
+    width: 100,
+    height: 100,
+    frameCount: 1,
+    mouseX: 0,
+    mouseY: 0,
+    random: (a?: number | unknown[], b?: number) =>
+      Array.isArray(a) ? a[0] : b === undefined ? Math.random() * (a ?? 1) : a! + Math.random() * (b - (a as number)),
+    noise: () => Math.random(),
+    map: (v: number, a: number, b: number, c: number, d: number) => c + ((v - a) * (d - c)) / (b - a || 1),
+    constrain: (v: number, lo: number, hi: number) => Math.min(Math.max(v, lo), hi),
+    lerp: (a: number, b: number, t: number) => a + (b - a) * t,
+    dist: (x1: number, y1: number, x2: number, y2: number) => Math.hypot(x2 - x1, y2 - y1),
+    sq: (v: number) => v * v,
+    millis: () => 0,
+    ...Object.fromEntries(
+      ['abs', 'floor', 'ceil', 'round', 'sqrt', 'pow', 'exp', 'log', 'sin', 'cos', 'tan', 'atan2', 'min', 'max'].map(
+        name => [name, Math[name as 'abs']]
+      )
+    ),
+  };
+
+  function p5(this: unknown, sketch: (p: Record<string, unknown>) => void, node?: string | Element) {
+    probe.sketches++;
+    const p: Record<string, unknown> = withFallback({ ...maths });
+    p.createCanvas = (w: number, h: number) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = w;
+      canvas.height = h;
+      p.width = w;
+      p.height = h;
+      const parent = typeof node === 'string' ? document.getElementById(node) : node;
+      (parent ?? document.body).appendChild(canvas);
+      return withFallback({ elt: canvas, parent: () => {} });
+    };
+    sketch(p);
+    const start = () => {
+      (p.setup as () => void)();
+      (p.draw as () => void)();
+    };
+    if (document.readyState === 'complete') start();
+    else window.addEventListener('load', start);
+  }
+  (window as unknown as Record<string, unknown>).p5 = p5;
+}
+
+/** A vis-network stand-in: DataSets hold real items, Networks record their container. */
+function installVisNetwork(win: Record<string, unknown>, probe: EngineProbe): void {
+  type Item = Record<string, unknown>;
+
+  class DataSet {
+    private items = new Map<unknown, Item>();
+    private nextId = 1;
+    constructor(data: Item[] = []) {
+      this.add(data);
+    }
+    add(data: Item | Item[]) {
+      const ids = [];
+      for (const item of Array.isArray(data) ? data : [data]) {
+        const id = item.id ?? `auto-${this.nextId++}`;
+        this.items.set(id, { ...item, id });
+        ids.push(id);
+      }
+      return ids;
+    }
+    update(data: Item | Item[]) {
+      const ids = [];
+      for (const item of Array.isArray(data) ? data : [data]) {
+        const existing = this.items.get(item.id);
+        ids.push(...(existing ? (this.items.set(item.id, { ...existing, ...item }), [item.id]) : this.add(item)));
+      }
+      return ids;
+    }
+    remove(ids: unknown) {
+      for (const id of Array.isArray(ids) ? ids : [ids]) this.items.delete((id as Item)?.id ?? id);
+      return ids;
+    }
+    get(id?: unknown) {
+      const all = [...this.items.values()];
+      if (id === undefined || (typeof id === 'object' && !Array.isArray(id))) {
+        const filter = (id as { filter?: (item: Item) => boolean } | undefined)?.filter;
+        return filter ? all.filter(filter) : all;
+      }
+      return Array.isArray(id) ? id.map(i => this.items.get(i) ?? null) : this.items.get(id) ?? null;
+    }
+    getIds() {
+      return [...this.items.keys()];
+    }
+    forEach(callback: (item: Item, id: unknown) => void) {
+      for (const [id, item] of this.items) callback(item, id);
+    }
+    map<T>(callback: (item: Item, id: unknown) => T) {
+      return [...this.items].map(([id, item]) => callback(item, id));
+    }
+    clear() {
+      this.items.clear();
+    }
+    get length() {
+      return this.items.size;
+    }
+    on() {}
+    off() {}
+  }
+
+  class Network {
+    constructor(container: unknown) {
+      probe.networks.push(container);
+      return withFallback(this);
+    }
+    setData() {}
+    setOptions() {}
+    on() {}
+    off() {}
+    fit() {}
+    redraw() {}
+    destroy() {}
+  }
+
+  win.vis = withFallback({ DataSet, DataView: DataSet, Network });
+}
+
+/**
+ * Install the stand-in for the engine's library and a canvas context stub,
+ * and record which elements get event listeners. Runs before any page script.
+ */
+function instrument(
+  window: DOMWindow,
+  engine: SimEngine,
+  listeners: Map<EventTarget, Set<string>>,
+  probe: EngineProbe
+): void {
+  const win = window as unknown as Record<string, unknown>;
+
+  if (engine === 'chartjs') installChartJs(win, probe);
+  if (engine === 'p5') installP5(window, probe);
+  if (engine === 'vis-network') installVisNetwork(win, probe);
+
+  window.HTMLCanvasElement.prototype.getContext = (() => permissive()) as never;
+
+  const add = window.EventTarget.prototype.addEventListener;
+  window.EventTarget.prototype.addEventListener = function (this: EventTarget, type, listener, options) {
+    if (!listeners.has(this)) listeners.set(this, new Set());
+    listeners.get(this)!.add(type);
+    return add.call(this, type, listener, options);
+  };
+}
+
+/**
+ * Problems with what the sim draws, for each engine: a Chart on a canvas, a
+ * p5 sketch in instance mode that creates its canvas, a vis.Network in an
+ * element on the page, or an SVG with shapes in it.
+ */
+function checkSurface(window: DOMWindow, engine: SimEngine, probe: EngineProbe): string[] {
+  const { document } = window;
+  switch (engine) {
+    case 'chartjs':
+      return [
+        ...(document.querySelector('canvas') ? [] : ['has no <canvas> for the chart']),
+        ...(probe.charts > 0 ? [] : ['never creates a Chart (new Chart(...)) on load']),
+      ];
+    case 'p5':
+      if (probe.sketches === 0) {
+        return typeof (window as unknown as Record<string, unknown>).setup === 'function'
+          ? ['uses p5.js global mode (a global setup()); use instance mode: new p5(sketch, container)']
+          : ['never creates a p5 sketch (new p5(sketch, container))'];
+      }
+      return document.querySelector('canvas') ? [] : ['p5 sketch never calls createCanvas() in setup()'];
+    case 'vis-network': {
+      if (probe.networks.length === 0) return ['never creates a vis.Network on load'];
+      const container = probe.networks[0];
+      return container instanceof window.Element && document.contains(container)
+        ? []
+        : ['vis.Network container is not an element on the page'];
+    }
+    case 'svg': {
+      const svg = document.querySelector('svg');
+      if (!svg) return ['has no <svg> for the diagram'];
+      return svg.querySelector('rect, circle, ellipse, line, polyline, polygon, path, text')
+        ? []
+        : ['<svg> has no shapes after loading'];
+    }
+  }
+}
+
+function describe(error: unknown): string {
+  const detail = (error as { detail?: unknown }).detail ?? error;
+  return detail instanceof Error ? detail.message : String(detail);
+}
+
+/**
+ * Validate a MicroSim with checkMicroSim in a child process. The sim's own
+ * scripts run during the check, so the child is killed after
+ * VALIDATION_TIMEOUT_MS and a timeout (e.g. an endless loop) is reported as a
+ * validation error instead of hanging the pipeline. At most MAX_VALIDATIONS
+ * children run at once; further calls wait for a free slot.
+ */
+export async function validateMicroSim(html: string, options: MicroSimCheckOptions = {}): Promise<string[]> {
+  // A finished validation hands its slot straight to the next waiter, as RetryingProvider does
+  if (runningValidations >= MAX_VALIDATIONS) {
+    await new Promise<void>(resolve => waitingValidations.push(resolve));
+  } else {
+    runningValidations++;
+  }
+  try {
+    return await validateInChild(html, options);
+  } finally {
+    const next = waitingValidations.shift();
+    if (next) next();
+    else runningValidations--;
+  }
+}
+
+function validateInChild(html: string, options: MicroSimCheckOptions): Promise<string[]> {
+  // Same extension as this module: .ts under tsx (the child inherits its loader), .js once built
+  const script = fileURLToPath(new URL(`./validate-worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+  const child = fork(script, { stdio: ['ignore', 'ignore', 'ignore', 'ipc'] });
+
+  return new Promise(resolve => {
+    const finish = (errors: string[]) => {
+      clearTimeout(timer);
+      child.removeAllListeners();
+      child.kill('SIGKILL');
+      resolve(errors);
+    };
+    const timer = setTimeout(
+      () => finish([`validation timed out after ${VALIDATION_TIMEOUT_MS / 1000}s (a script may loop forever)`]),
+      VALIDATION_TIMEOUT_MS
+    );
+    child.once('message', errors => finish(errors as string[]));
+    child.once('error', error => finish([`validation could not run: ${describe(error)}`]));
+    child.once('exit', code => finish([`validation stopped unexpectedly (exit code ${code})`]));
+    child.send({ html, options });
+  });
+}
+
+/**
+ * Load a MicroSim in jsdom with its engine's library stubbed and check that
+ * the document parses, it loads the library, its scripts run without throwing
+ * through DOMContentLoaded, it has 2–4 labelled inputs with `input`
+ * listeners, and it draws with its engine. With `offline`, the library must
+ * be the bundled copy and nothing remote may load.
+ * Returns the problems found; an empty list means the sim passed. Runs the
+ * sim's scripts in this thread; use validateMicroSim for untrusted sims.
+ */
+export async function checkMicroSim(html: string, options: MicroSimCheckOptions = {}): Promise<string[]> {
+  const engine = options.engine ?? 'chartjs';
+  const { library, label } = ENGINES[engine];
+  const errors: string[] = [];
+  const trimmed = html.trim();
+
+  if (!/^<!DOCTYPE html>/i.test(trimmed) && !/^<html[\s>]/i.test(trimmed)) {
+    errors.push('document does not start with <!DOCTYPE html> or <html>');
+  }
+  if (!/<\/html>\s*$/i.test(trimmed)) {
+    errors.push('document does not end with </html> (it may be truncated)');
+  }
+  if (options.offline) {
+    for (const url of findRemoteUrls(html)) {
+      errors.push(`loads a remote resource (${url}); offline sims may only use the bundled libraries in lib/ and inline code`);
+    }
+  }
+  if (library) {
+    const sources = [...html.matchAll(/<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)].map(m => m[1]);
+    const loaded = options.offline
+      ? sources.includes(library.local)
+      : sources.some(src => src === library.local || library.pattern.test(src));
+    if (!loaded) {
+      errors.push(`does not load ${label} (<script src="${options.offline ? library.local : library.cdn}">)`);
+    }
+  }
+
+  const scriptErrors: string[] = [];
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('jsdomError', error => scriptErrors.push(describe(error)));
+
+  const listeners = new Map<EventTarget, Set<string>>();
+  const probe: EngineProbe = { charts: 0, sketches: 0, networks: [] };
+  const dom = new JSDOM(html, {
+    runScripts: 'dangerously',
+    pretendToBeVisual: true,
+    virtualConsole,
+    beforeParse: window => instrument(window, engine, listeners, probe),
+  });
+  const { window } = dom;
+  const { document } = window;
+
+  try {
+    await new Promise<void>(resolve => {
+      if (document.readyState === 'complete') return resolve();
+      const timer = setTimeout(resolve, LOAD_TIMEOUT_MS);
+      window.addEventListener('load', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+
+    if (!document.body || document.body.children.length === 0) {
+      errors.push('document has no body content');
+    }
+    if (document.querySelectorAll('script').length === 0) {
+      errors.push('document has no <script>');
+    }
+    for (const message of scriptErrors.splice(0)) {
+      errors.push(`script error while loading: ${message}`);
+    }
+
+    const inputs = [...document.querySelectorAll<HTMLInputElement>('input, select')].filter(
+      el => !['hidden', 'button', 'submit', 'reset', 'checkbox', 'radio'].includes(el.type)
+    );
+    const labelled = inputs.filter(
+      el => (el.labels?.length ?? 0) > 0 || el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby')
+    );
+    if (inputs.length < SIM_INPUTS.min || inputs.length > SIM_INPUTS.max) {
+      errors.push(`has ${inputs.length} parameter input(s); ${SIM_INPUTS.min}–${SIM_INPUTS.max} are required`);
+    }
+    for (const el of inputs.filter(el => !labelled.includes(el))) {
+      errors.push(`input "${el.id || el.name || el.type}" has no <label> or aria-label`);
+    }
+
+    // An input counts as wired if it, or an ancestor (event delegation), has an input listener
+    const wired = (el: Element) => {
+      for (let node: EventTarget | null = el; node; node = (node as Node).parentNode ?? (node === document ? window : null)) {
+        if (listeners.get(node)?.has('input') || (node as HTMLElement).oninput) return true;
+        if (node === window) break;
+      }
+      return false;
+    };
+    // p5 sketches may instead read the inputs on every frame in draw()
+    const polled = engine === 'p5' && probe.sketches > 0;
+    for (const el of inputs.filter(el => !polled && !wired(el))) {
+      errors.push(`input "${el.id || el.name || el.type}" has no "input" event listener`);
+    }
+
+    // Nudge every input so update handlers run at least once
+    for (const el of inputs) {
+      el.dispatchEvent(new window.Event('input', { bubbles: true }));
+    }
+    for (const message of scriptErrors.splice(0)) {
+      errors.push(`script error in an input handler: ${message}`);
+    }
+
+    errors.push(...checkSurface(window, engine, probe));
+  } finally {
+    window.close();
+  }
+
+  return [...new Set(errors)];
+}
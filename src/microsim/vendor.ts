@@ -0,0 +1,76 @@
+import { copyFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, extname, join } from 'node:path';
+import type { SimEngine } from '../types.js';
+import { ENGINES, type SimLibrary } from './engines.js';
+
+/**
+ * Find the root directory of an installed npm package. Resolves its entry
+ * point and walks up to the directory holding the package.json, since some
+ * packages do not export package.json itself.
+ */
+function packageRoot(name: string): string {
+  const require = createRequire(import.meta.url);
+  let dir: string;
+  try {
+    dir = dirname(require.resolve(name));
+  } catch {
+    throw new Error(`Offline MicroSims need the ${name} package; install it with "npm install ${name}".`);
+  }
+  while (!existsSync(join(dir, 'package.json'))) {
+    const parent = dirname(dir);
+    if (parent === dir) throw new Error(`Could not find the root of the ${name} package.`);
+    dir = parent;
+  }
+  return dir;
+}
+
+/**
+ * Copy the libraries the given engines use (and their licences) from the
+ * installed npm packages into docs/microsims/lib/, so sims work without
+ * network access.
+ */
+export async function vendorLibraries(simsDir: string, engines: SimEngine[]): Promise<void> {
+  const libraries = [...new Set(engines)].map(e => ENGINES[e].library).filter((l): l is SimLibrary => l !== null);
+  for (const library of libraries) {
+    const root = packageRoot(library.package);
+    const libDir = join(simsDir, dirname(library.local));
+    await mkdir(libDir, { recursive: true });
+    await copyFile(join(root, library.file), join(simsDir, library.local));
+    await copyFile(join(root, library.license), join(libDir, `${library.package}.LICENSE${extname(library.license)}`));
+  }
+}
+
+/**
+ * Point every <script> that loads the engine's library from a CDN (jsDelivr,
+ * unpkg, cdnjs) at the bundled copy.
+ */
+export function useLocalLibrary(html: string, engine: SimEngine): string {
+  const library = ENGINES[engine].library;
+  if (!library) return html;
+  return html.replace(
+    /(<script\b[^>]*\bsrc\s*=\s*["'])(https?:\/\/[^"']*(?:jsdelivr|unpkg|cdnjs)[^"']*)(["'])/gi,
+    (tag, open: string, url: string, close: string) => (library.pattern.test(url) ? `${open}${library.local}${close}` : tag)
+  );
+}
+
+/**
+ * Remote URLs the page would fetch: script, image, iframe and media sources,
+ * stylesheet links, CSS url() and @import, and fetch()/import() calls.
+ * Plain hyperlinks and XML namespaces are not fetched and are ignored.
+ */
+export function findRemoteUrls(html: string): string[] {
+  const patterns = [
+    /<(?:script|img|iframe|audio|video|source|embed|track)\b[^>]*\bsrc\s*=\s*["']((?:https?:)?\/\/[^"']+)/gi,
+    /<link\b[^>]*\bhref\s*=\s*["']((?:https?:)?\/\/[^"']+)/gi,
+    /url\(\s*["']?((?:https?:)?\/\/[^"')\s]+)/gi,
+    /@import\s+["']((?:https?:)?\/\/[^"']+)/gi,
+    /\b(?:fetch|import)\(\s*["'`]((?:https?:)?\/\/[^"'`]+)/gi,
+  ];
+  const urls = new Set<string>();
+  for (const pattern of patterns) {
+    for (const m of html.matchAll(pattern)) urls.add(m[1]);
+  }
+  return [...urls];
+}
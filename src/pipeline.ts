@@ -1,6 +1,10 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import type { PipelineContext, TextbookConfig } from './types.js';
+import type { PipelineContext, TextbookConfig, LLMProvider } from './types.js';
+import { createProvider } from './providers/index.js';
+import { MeteredProvider } from './providers/metered.js';
+import { UsageTracker, resolvePrices, formatCost, type UsageSummary } from './usage.js';
+import { loadState, saveState, restoreContext, statePath } from './state.js';
 
 import courseDescription from './steps/course-description.js';
 import learningGraph from './steps/learning-graph.js';
@@ -11,47 +15,101 @@ import glossary from './steps/glossary.js';
 import faq from './steps/faq.js';
 import quizzes from './steps/quizzes.js';
 import references from './steps/references.js';
+import diagrams from './steps/diagrams.js';
 import mkdocsConfig from './steps/mkdocs-config.js';
 import metrics from './steps/metrics.js';
 import readme from './steps/readme.js';
 
 interface PipelineStep {
+  id: string;
   name: string;
   emoji: string;
   fn: (ctx: PipelineContext) => Promise<void>;
 }
 
 const steps: PipelineStep[] = [
-  { name: 'Course Description', emoji: '1', fn: courseDescription },
-  { name: 'Learning Graph', emoji: '2', fn: learningGraph },
-  { name: 'Chapter Structure', emoji: '3', fn: chapterStructure },
-  { name: 'Chapter Content', emoji: '4', fn: chapterContent },
-  { name: 'MicroSims', emoji: '5', fn: microsims },
-  { name: 'Glossary', emoji: '6', fn: glossary },
-  { name: 'FAQ', emoji: '7', fn: faq },
-  { name: 'Quizzes', emoji: '8', fn: quizzes },
-  { name: 'References', emoji: '9', fn: references },
-  { name: 'MkDocs Config', emoji: '10', fn: mkdocsConfig },
-  { name: 'Metrics', emoji: '11', fn: metrics },
-  { name: 'README', emoji: '12', fn: readme },
+  { id: 'course-description', name: 'Course Description', emoji: '1', fn: courseDescription },
+  { id: 'learning-graph', name: 'Learning Graph', emoji: '2', fn: learningGraph },
+  { id: 'chapter-structure', name: 'Chapter Structure', emoji: '3', fn: chapterStructure },
+  { id: 'chapter-content', name: 'Chapter Content', emoji: '4', fn: chapterContent },
+  { id: 'microsims', name: 'MicroSims', emoji: '5', fn: microsims },
+  { id: 'glossary', name: 'Glossary', emoji: '6', fn: glossary },
+  { id: 'faq', name: 'FAQ', emoji: '7', fn: faq },
+  { id: 'quizzes', name: 'Quizzes', emoji: '8', fn: quizzes },
+  { id: 'references', name: 'References', emoji: '9', fn: references },
+  { id: 'diagrams', name: 'Diagram Check', emoji: '10', fn: diagrams },
+  { id: 'mkdocs-config', name: 'MkDocs Config', emoji: '11', fn: mkdocsConfig },
+  { id: 'metrics', name: 'Metrics', emoji: '12', fn: metrics },
+  { id: 'readme', name: 'README', emoji: '13', fn: readme },
 ];
 
-export async function runPipeline(config: TextbookConfig): Promise<void> {
+export const STEP_IDS = steps.map(s => s.id);
+
+/**
+ * Work out which steps have already run, restoring saved context when
+ * resuming or starting part-way through the pipeline.
+ */
+async function prepareResume(ctx: PipelineContext): Promise<Set<string>> {
+  const { resume, fromStep, topic, outputDir } = ctx.config;
+  if (!resume && !fromStep) return new Set();
+
+  const fromIndex = fromStep ? steps.findIndex(s => s.id === fromStep) : -1;
+  if (fromStep && fromIndex === -1) {
+    throw new Error(`Unknown step "${fromStep}". Valid steps: ${STEP_IDS.join(', ')}`);
+  }
+
+  const state = await loadState(outputDir);
+  if (!state) {
+    if (fromIndex > 0) {
+      throw new Error(`No saved state at ${statePath(outputDir)}; cannot start from step "${fromStep}".`);
+    }
+    return new Set();
+  }
+
+  if (state.config.topic !== topic) {
+    throw new Error(
+      `Saved state in ${outputDir} is for topic "${state.config.topic}", not "${topic}".`
+    );
+  }
+
+  restoreContext(ctx, state);
+
+  if (fromStep) {
+    return new Set(steps.slice(0, fromIndex).map(s => s.id));
+  }
+  return new Set(state.completedSteps);
+}
+
+export async function runPipeline(config: TextbookConfig, provider?: LLMProvider): Promise<void> {
   const ctx: PipelineContext = {
     config,
     outputDir: config.outputDir,
+    usage: new UsageTracker(resolvePrices(config)),
   };
 
+  const completed = await prepareResume(ctx);
+  ctx.provider = new MeteredProvider(provider ?? createProvider(config), ctx.usage!);
+
   console.log(chalk.bold.blue('\n  create-intelligent-textbook\n'));
   console.log(chalk.gray(`  Topic: ${chalk.white(config.topic)}`));
   console.log(chalk.gray(`  Chapters: ${config.chapters} | Concepts: ${config.concepts} | MicroSims: ${config.microsims}`));
-  console.log(chalk.gray(`  Model: ${config.model}`));
+  console.log(chalk.gray(`  Model: ${config.model} (${ctx.provider!.name})`));
   console.log(chalk.gray(`  Output: ${config.outputDir}\n`));
 
   const totalStart = Date.now();
 
+  if (completed.size > 0) {
+    console.log(chalk.gray(`  Resuming: ${completed.size} step(s) restored from ${statePath(config.outputDir)}\n`));
+  }
+
   for (let i = 0; i < steps.length; i++) {
     const step = steps[i];
+
+    if (completed.has(step.id)) {
+      ora().info(chalk.gray(`[${i + 1}/${steps.length}] ${step.name} (checkpoint)`));
+      continue;
+    }
+
     const spinner = ora({
       text: chalk.cyan(`[${i + 1}/${steps.length}] ${step.name}`),
       color: 'cyan',
@@ -59,8 +117,12 @@ export async function runPipeline(config: TextbookConfig): Promise<void> {
 
     const stepStart = Date.now();
 
+    ctx.usage!.startStep(step.id, step.name);
+
     try {
       await step.fn(ctx);
+      completed.add(step.id);
+      await saveState(ctx, steps.filter(s => completed.has(s.id)).map(s => s.id));
       const elapsed = ((Date.now() - stepStart) / 1000).toFixed(1);
       spinner.succeed(
         chalk.green(`[${i + 1}/${steps.length}] ${step.name}`) +
@@ -69,6 +131,7 @@ export async function runPipeline(config: TextbookConfig): Promise<void> {
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       spinner.fail(chalk.red(`[${i + 1}/${steps.length}] ${step.name}: ${msg}`));
+      console.log(chalk.gray(`\n  Resume with --resume, or --from-step ${step.id} to retry this step.`));
       throw error;
     }
   }
@@ -77,6 +140,7 @@ export async function runPipeline(config: TextbookConfig): Promise<void> {
 
   console.log(chalk.bold.green(`\n  Done in ${totalElapsed}s\n`));
   console.log(chalk.gray(`  Output: ${config.outputDir}`));
+  printUsage(ctx.usage!.summary(STEP_IDS));
 
   if (config.deploy === 'github-pages') {
     console.log(chalk.gray(`  Deploy: Run 'cd ${config.outputDir} && mkdocs gh-deploy' to publish`));
@@ -84,3 +148,18 @@ export async function runPipeline(config: TextbookConfig): Promise<void> {
 
   console.log('');
 }
+
+function printUsage(summary: UsageSummary): void {
+  if (summary.total.calls === 0) return;
+
+  const line = (r: UsageSummary['total']) =>
+    `    ${r.step.padEnd(20)} ${String(r.calls).padStart(4)} calls ` +
+    `${r.inputTokens.toLocaleString().padStart(11)} in ${r.outputTokens.toLocaleString().padStart(11)} out ` +
+    `${formatCost(r.costUsd).padStart(9)}`;
+
+  console.log(chalk.gray('\n  Token usage:'));
+  for (const row of summary.steps) {
+    if (row.calls > 0) console.log(chalk.gray(line(row)));
+  }
+  console.log(chalk.white(line(summary.total)));
+}
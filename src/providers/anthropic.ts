@@ -0,0 +1,53 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      // Retries are handled by RetryingProvider so they honour --concurrency and --max-retries
+      this.client = new Anthropic({ maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  async complete(request: GenerateRequest, options: CompleteOptions = {}): Promise<GenerateResponse> {
+    const stream = this.getClient().messages.stream(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(request.schema
+          ? {
+              tools: [
+                {
+                  name: request.schema.name,
+                  description: request.schema.description,
+                  input_schema: request.schema.schema as Anthropic.Tool.InputSchema,
+                },
+              ],
+              tool_choice: { type: 'tool' as const, name: request.schema.name },
+            }
+          : {}),
+      },
+      { signal: options.signal }
+    );
+
+    const response = await stream.finalMessage();
+    const usage = { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens };
+
+    if (request.schema) {
+      const toolBlock = response.content.find(b => b.type === 'tool_use');
+      return { text: toolBlock ? JSON.stringify(toolBlock.input) : '', usage };
+    }
+
+    const textBlock = response.content.find(b => b.type === 'text');
+    return {
+      text: textBlock?.text ?? '',
+      usage,
+    };
+  }
+}
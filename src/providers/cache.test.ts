@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CachingProvider } from './cache.js';
+import type { GenerateRequest, LLMProvider } from '../types.js';
+
+const request: GenerateRequest = { prompt: 'Explain qubits', system: 'You teach.', model: 'test-model', maxTokens: 100 };
+
+function counting(name = 'stub', text = 'answer'): LLMProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    complete: async () => {
+      provider.calls++;
+      return { text, usage: { inputTokens: 10, outputTokens: 20 } };
+    },
+  };
+  return provider;
+}
+
+async function withDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'cache-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('answers a repeated request from disk without usage', () =>
+  withDir(async dir => {
+    const inner = counting();
+    const provider = new CachingProvider(inner, dir);
+
+    assert.deepEqual(await provider.complete(request), { text: 'answer', usage: { inputTokens: 10, outputTokens: 20 } });
+    assert.deepEqual(await provider.complete(request), { text: 'answer' });
+    assert.equal(inner.calls, 1);
+  }));
+
+test('calls the model again for a different request', () =>
+  withDir(async dir => {
+    const inner = counting();
+    const provider = new CachingProvider(inner, dir);
+
+    await provider.complete(request);
+    await provider.complete({ ...request, prompt: 'Explain gates' });
+    assert.equal(inner.calls, 2);
+  }));
+
+test('keeps backends apart by provider name and base URL', () =>
+  withDir(async dir => {
+    await new CachingProvider(counting('openai', 'local'), dir, 'http://localhost:11434/v1').complete(request);
+
+    const otherServer = counting('openai', 'remote');
+    await new CachingProvider(otherServer, dir, 'https://api.openai.com/v1').complete(request);
+    const otherProvider = counting('fake', 'fake');
+    await new CachingProvider(otherProvider, dir).complete(request);
+
+    assert.equal(otherServer.calls, 1);
+    assert.equal(otherProvider.calls, 1);
+  }));
+
+test('does not cache an empty response', () =>
+  withDir(async dir => {
+    const inner = counting('stub', '');
+    const provider = new CachingProvider(inner, dir);
+
+    await provider.complete(request);
+    await provider.complete(request);
+    assert.equal(inner.calls, 2);
+  }));
@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+import { cassetteKey } from './cassette.js';
+
+interface CacheEntry {
+  request: GenerateRequest;
+  text: string;
+  cachedAt: string;
+}
+
+/**
+ * Content-addressed response cache. Identical requests (model, system prompt,
+ * prompt and token budget) to the same backend are answered from disk;
+ * everything else goes to the wrapped provider and is stored for next time.
+ * The backend (provider name and base URL) is part of the key, so a fake run
+ * never answers for a real model and two OpenAI-compatible servers never
+ * share responses.
+ */
+export class CachingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly dir: string,
+    private readonly baseUrl?: string
+  ) {
+    this.name = inner.name;
+  }
+
+  private key(request: GenerateRequest): string {
+    const parts = [this.inner.name, this.baseUrl ?? null, cassetteKey(request)];
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  async complete(request: GenerateRequest, options?: CompleteOptions): Promise<GenerateResponse> {
+    const file = join(this.dir, `${this.key(request)}.json`);
+
+    try {
+      const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+      // No usage on a hit: a cached response costs nothing
+      return { text: entry.text };
+    } catch {
+      // Miss or unreadable entry — fall through to the provider
+    }
+
+    const response = await this.inner.complete(request, options);
+    if (response.text) {
+      const entry: CacheEntry = { request, text: response.text, cachedAt: new Date().toISOString() };
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(file, JSON.stringify(entry, null, 2), 'utf8');
+    }
+    return response;
+  }
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CassetteMissError, RecordingProvider, ReplayProvider, cassetteKey } from './cassette.js';
+import type { GenerateRequest, LLMProvider } from '../types.js';
+
+const request: GenerateRequest = { prompt: 'Explain qubits', system: 'You teach.', model: 'test-model', maxTokens: 100 };
+
+function counting(): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'stub',
+    calls: 0,
+    complete: async (r: GenerateRequest) => {
+      provider.calls++;
+      return { text: `answer to ${r.prompt}`, usage: { inputTokens: 10, outputTokens: 20 } };
+    },
+  };
+  return provider;
+}
+
+async function withDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'cassette-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('replays a recorded response without usage', () =>
+  withDir(async dir => {
+    const inner = counting();
+    const recorded = await new RecordingProvider(inner, dir).complete(request);
+    const replayed = await new ReplayProvider(dir).complete(request);
+
+    assert.equal(inner.calls, 1);
+    assert.deepEqual(replayed, { text: recorded.text });
+  }));
+
+test('fails on a request that was never recorded', () =>
+  withDir(async dir => {
+    await new RecordingProvider(counting(), dir).complete(request);
+
+    await assert.rejects(new ReplayProvider(dir).complete({ ...request, prompt: 'Explain gates' }), CassetteMissError);
+  }));
+
+test('keys requests on everything that changes the answer', () => {
+  const key = cassetteKey(request);
+
+  assert.equal(cassetteKey({ ...request }), key);
+  for (const change of [{ model: 'other' }, { system: 'other' }, { prompt: 'other' }, { maxTokens: 200 }]) {
+    assert.notEqual(cassetteKey({ ...request, ...change }), key);
+  }
+  assert.notEqual(cassetteKey({ ...request, schema: { name: 'concepts', description: 'Concept list', schema: {} } }), key);
+});
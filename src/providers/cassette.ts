@@ -0,0 +1,75 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+
+interface CassetteEntry {
+  request: GenerateRequest;
+  response: GenerateResponse;
+  recordedAt: string;
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly key: string, request: GenerateRequest, dir: string) {
+    const excerpt = request.prompt.slice(0, 120).replace(/\s+/g, ' ');
+    super(`No cassette recording ${key} in ${dir} for prompt "${excerpt}…". Re-record with --record.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Stable key for a request: any change to the model, system prompt, prompt,
+ * token budget or output schema produces a different recording.
+ */
+export function cassetteKey(request: GenerateRequest): string {
+  const parts: unknown[] = [request.model, request.system, request.maxTokens, request.prompt];
+  if (request.schema) parts.push(request.schema);
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+function entryPath(dir: string, key: string): string {
+  return join(dir, `${key}.json`);
+}
+
+/**
+ * Passes every call through to the wrapped provider and saves the request and
+ * response to the cassette directory.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: LLMProvider, private readonly dir: string) {
+    this.name = `${inner.name}+record`;
+  }
+
+  async complete(request: GenerateRequest, options?: CompleteOptions): Promise<GenerateResponse> {
+    const response = await this.inner.complete(request, options);
+    const entry: CassetteEntry = { request, response, recordedAt: new Date().toISOString() };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(entryPath(this.dir, cassetteKey(request)), JSON.stringify(entry, null, 2), 'utf8');
+    return response;
+  }
+}
+
+/**
+ * Serves responses from a cassette directory and never calls a model.
+ * A request with no recording is an error, not a silent fallback. The
+ * recorded usage is not reported: a replayed response costs nothing.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+
+  constructor(private readonly dir: string) {}
+
+  async complete(request: GenerateRequest): Promise<GenerateResponse> {
+    const key = cassetteKey(request);
+    let raw: string;
+    try {
+      raw = await readFile(entryPath(this.dir, key), 'utf8');
+    } catch {
+      throw new CassetteMissError(key, request, this.dir);
+    }
+    return { text: (JSON.parse(raw) as CassetteEntry).response.text };
+  }
+}
@@ -0,0 +1,18 @@
+import type { LLMProvider, GenerateRequest, GenerateResponse } from '../types.js';
+import { buildFixture, buildStructuredFixture } from './fixtures.js';
+
+/**
+ * Deterministic provider for tests and offline runs. Never touches the
+ * network; every step gets canned output its parser understands. Reports no
+ * token usage, since nothing is billed.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+
+  async complete(request: GenerateRequest): Promise<GenerateResponse> {
+    const text = request.schema
+      ? buildStructuredFixture(request.schema.name, request.prompt)
+      : buildFixture(request.prompt);
+    return { text };
+  }
+}
@@ -0,0 +1,368 @@
+// ---------------------------------------------------------------------------
+// Canned responses for the fake provider. Each builder recognises one step's
+// prompt and returns output shaped the way that step's parser expects, sized
+// from the counts embedded in the prompt.
+// ---------------------------------------------------------------------------
+
+function num(prompt: string, pattern: RegExp, fallback: number): number {
+  const m = prompt.match(pattern);
+  return m ? Number(m[1]) : fallback;
+}
+
+function courseDescription(prompt: string): string {
+  const chapters = num(prompt, /exactly (\d+) chapters/, 3);
+  const topic = prompt.match(/on the topic: "([^"]+)"/)?.[1] ?? 'Fixture Topic';
+  const topics = Array.from({ length: chapters }, (_, i) => `- Chapter ${i + 1}: ${topic} Part ${i + 1}`).join('\n');
+
+  return `## Course Title
+Foundations of ${topic}
+
+## Subtitle
+A fixture course generated without a language model.
+
+## Target Audience
+Developers running the pipeline offline. The content is deterministic placeholder text.
+
+## Prerequisites
+- None
+
+## Topics Covered
+${topics}
+
+## Learning Outcomes
+1. Remember: Recall the core vocabulary of ${topic}.
+2. Understand: Explain how the parts of ${topic} fit together.
+3. Apply: Use ${topic} techniques on a small example.
+4. Analyze: Compare alternative approaches within ${topic}.
+5. Evaluate: Judge the trade-offs of a ${topic} design.
+6. Create: Design a new solution using ${topic}.
+`;
+}
+
+interface FixtureConcept {
+  id: number;
+  name: string;
+  chapter: number;
+  dependencies: number[];
+  taxonomy: string;
+  bloomLevel: string;
+}
+
+function fixtureConcepts(prompt: string): FixtureConcept[] {
+  // Top-up requests ask for "IDs a through b"; full requests for "exactly N concepts"
+  const first = num(prompt, /IDs (\d+) through/, 1);
+  const last = num(prompt, /IDs \d+ through (\d+)/, num(prompt, /exactly (\d+) concepts/, 10));
+  const chapters = num(prompt, /integer 1–(\d+)/, 3);
+  const blooms = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+  const concepts: FixtureConcept[] = [];
+
+  for (let id = first; id <= last; id++) {
+    const chapter = Math.min(chapters, Math.floor(((id - 1) * chapters) / last) + 1);
+    const third = chapter / chapters;
+    concepts.push({
+      id,
+      name: `Fixture Concept ${id}`,
+      chapter,
+      dependencies: id > 2 ? [Math.max(1, id - 2), id - 1] : id === 2 ? [1] : [],
+      taxonomy: third <= 1 / 3 ? 'Foundation' : third <= 2 / 3 ? 'Core' : 'Advanced',
+      bloomLevel: blooms[Math.min(blooms.length - 1, Math.floor(third * blooms.length - 0.001))],
+    });
+  }
+  return concepts;
+}
+
+function learningGraph(prompt: string): string {
+  const rows = ['| ID | Concept | Chapter | Dependencies | Taxonomy | Bloom\'s Level |', '|---|---|---|---|---|---|'];
+  for (const c of fixtureConcepts(prompt)) {
+    rows.push(`| ${c.id} | ${c.name} | ${c.chapter} | ${c.dependencies.join(', ')} | ${c.taxonomy} | ${c.bloomLevel} |`);
+  }
+  return rows.join('\n');
+}
+
+function chapterStructure(prompt: string): string {
+  const chapters = num(prompt, /For each of the (\d+) chapters/, 3);
+  const blocks: string[] = [];
+  for (let n = 1; n <= chapters; n++) {
+    const title = prompt.match(new RegExp(`Chapter ${n}: ([^\\n]+)`))?.[1]?.trim() ?? `Chapter ${n}`;
+    blocks.push(`---
+## Chapter ${n}: ${title}
+
+**Summary:** Chapter ${n} introduces ${title} and the concepts it depends on.
+
+**Concept IDs:** ${prompt.match(new RegExp(`Chapter ${n}: [^\\n]+\\n\\s+Key concepts: ([^\\n]+)`))?.[1]?.split(',').map(s => s.trim().split('.')[0]).join(', ') ?? ''}
+
+**Key Questions:**
+- What is ${title}?
+- Why does it matter?
+- How is it applied?
+
+**Learning Objectives:**
+- Define ${title}
+- Explain ${title}
+- Apply ${title}
+---`);
+  }
+  return blocks.join('\n');
+}
+
+function chapterContent(prompt: string): string {
+  const header = prompt.match(/`(# Chapter \d+: [^`]+)`/)?.[1] ?? '# Chapter';
+  const paragraph = 'This fixture paragraph stands in for generated prose so the pipeline can run offline. '.repeat(8).trim();
+  const concepts = [...prompt.matchAll(/^\d+\. (.+?) \(\w+, \w+\)$/gm)].map(m => m[1]);
+  const mentions = concepts.length > 0 ? `\n\nThis chapter covers ${concepts.join(', ')}.` : '';
+  // Enough prose to clear the 3000-word minimum of the chapter quality gate
+  const discussion = Array.from({ length: 26 }, () => paragraph).join('\n\n');
+
+  return `${header}
+
+## Learning Objectives
+
+- Define the key concepts of this chapter
+- Explain how they relate
+- Apply them to an example
+
+## Introduction
+
+${paragraph}${mentions}
+
+## Core Ideas
+
+${paragraph}
+
+\`\`\`mermaid
+flowchart TD
+  A[Start] --> B[Learn]
+  B --> C[Apply]
+\`\`\`
+
+| Concept | Role |
+|---------|------|
+| A | Input |
+| B | Output |
+
+!!! note "Fixture"
+    This content was produced by the fake provider.
+
+## Worked Example
+
+${paragraph}
+
+\`\`\`mermaid
+graph LR
+  X[Idea] --> Y[Practice]
+\`\`\`
+
+| Step | Action |
+|------|--------|
+| 1 | Read |
+| 2 | Practise |
+
+## Discussion
+
+${discussion}
+
+## Key Takeaways
+
+- Fixture takeaway one
+- Fixture takeaway two
+
+## Review Questions
+
+1. What is the first concept?
+2. How does it relate to the second?
+
+## Further Reading
+
+- Fixture Reference, *A Book* (2024)
+`;
+}
+
+/** Drawing surface and update code for each MicroSim engine, keyed by its label in the prompt. */
+const SIM_DRAWING: Record<string, { surface: string; setup: string; update: string }> = {
+  'Chart.js': {
+    surface: '<canvas id="chart"></canvas>',
+    setup: 'let chart;',
+    update: `if (chart) chart.destroy();
+      chart = new Chart(document.getElementById('chart'), {
+        type: 'bar',
+        data: { labels: ['A', 'B'], datasets: [{ label: 'Value', data: [a, b] }] },
+      });`,
+  },
+  'p5.js': {
+    surface: '<div id="sim-container"></div>',
+    setup: `let radius = 5;
+    new p5(p => {
+      p.setup = () => p.createCanvas(400, 300);
+      p.draw = () => {
+        p.background(248);
+        p.circle(p.width / 2, p.height / 2, radius * 10);
+      };
+    }, 'sim-container');`,
+    update: 'radius = a + b;',
+  },
+  'vis-network': {
+    surface: '<div id="network" style="height:450px"></div>',
+    setup: `const nodes = new vis.DataSet([{ id: 1, label: 'A' }, { id: 2, label: 'B' }]);
+    const edges = new vis.DataSet([]);
+    let network;`,
+    update: `edges.clear();
+      edges.add([{ from: 1, to: 2, label: String(a + b) }]);
+      if (!network) network = new vis.Network(document.getElementById('network'), { nodes, edges }, {});`,
+  },
+  SVG: {
+    surface: '<svg id="diagram" viewBox="0 0 800 450"></svg>',
+    setup: "const svg = document.getElementById('diagram');",
+    update: `svg.innerHTML = '';
+      const bar = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      bar.setAttribute('width', String(a * 40));
+      bar.setAttribute('height', String(b * 20));
+      svg.appendChild(bar);`,
+  },
+};
+
+function microsim(prompt: string): string {
+  const name = prompt.match(/## Simulation: ([^\n]+)/)?.[1] ?? 'Fixture Sim';
+  const engine = prompt.match(/\*\*Rendering Engine:\*\* (.+?) \(/)?.[1] ?? 'Chart.js';
+  const drawing = SIM_DRAWING[engine] ?? SIM_DRAWING['Chart.js'];
+  const librarySrc = prompt.match(/<script src="([^"]+)"><\/script>/)?.[1];
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${name}</title>${librarySrc ? `\n  <script src="${librarySrc}"></script>` : ''}
+</head>
+<body>
+  <h1>${name}</h1>
+  <label for="a">Parameter A: <span id="a-val">5</span></label>
+  <input type="range" id="a" min="0" max="10" value="5">
+  <label for="b">Parameter B: <span id="b-val">5</span></label>
+  <input type="range" id="b" min="0" max="10" value="5">
+  ${drawing.surface}
+  <p>This fixture simulation was produced by the fake provider.</p>
+  <script>
+    ${drawing.setup}
+    function update() {
+      const a = Number(document.getElementById('a').value);
+      const b = Number(document.getElementById('b').value);
+      document.getElementById('a-val').textContent = a;
+      document.getElementById('b-val').textContent = b;
+      ${drawing.update}
+    }
+    document.addEventListener('DOMContentLoaded', () => {
+      document.getElementById('a').addEventListener('input', update);
+      document.getElementById('b').addEventListener('input', update);
+      update();
+    });
+  </script>
+</body>
+</html>`;
+}
+
+function glossary(prompt: string): string {
+  const terms = [...prompt.matchAll(/^- (.+?) \(Chapter (\d+), (\w+), \w+\)$/gm)]
+    .map(m => ({ name: m[1], chapter: m[2], taxonomy: m[3] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const sections: string[] = ['A fixture glossary produced by the fake provider.'];
+  let letter = '';
+  for (const t of terms) {
+    const first = t.name[0].toUpperCase();
+    if (first !== letter) {
+      letter = first;
+      sections.push(`## ${letter}`);
+    }
+    sections.push(`**${t.name}** *(Chapter ${t.chapter} — ${t.taxonomy})*\n: A placeholder idea that the fixture course introduces in chapter ${t.chapter}.`);
+  }
+  sections.push('## Key Formulas and Relationships\n\n- None in fixture mode.');
+  sections.push('## Further Reading\n\n- Fixture Reference');
+  return sections.join('\n\n');
+}
+
+function faq(): string {
+  const items = Array.from({ length: 5 }, (_, i) =>
+    `??? question "Fixture question ${i + 1}?"\n    Fixture answer ${i + 1}, produced by the fake provider.`
+  ).join('\n\n');
+  return `Frequently asked questions for the fixture course.\n\n## General\n\n${items}\n`;
+}
+
+function quiz(prompt: string): string {
+  const m = prompt.match(/for Chapter (\d+): "([^"]+)"/);
+  const chapter = m?.[1] ?? '1';
+  const title = m?.[2] ?? 'Chapter';
+  const levels = ['Remember', 'Understand', 'Apply', 'Apply', 'Analyze', 'Analyze', 'Evaluate', 'Create'];
+  const questions = levels.map((level, i) => `## Q${i + 1} — ${level}
+
+**Fixture question ${i + 1} for chapter ${chapter}?**
+
+- A) Option A${i + 1}
+- B) Option B${i + 1}
+- C) Option C${i + 1}
+- D) Option D${i + 1}
+
+??? success "Answer"
+    **Correct answer: B**
+
+    Explanation: Option B${i + 1} is the fixture answer; option A) and (C) are distractors.
+
+---`).join('\n\n');
+
+  return `# Chapter ${chapter} Quiz: ${title}
+
+A fixture quiz produced by the fake provider.
+
+${questions}`;
+}
+
+function references(): string {
+  return `# References
+
+Fixture references produced by the fake provider.
+
+## Chapter 1
+
+- **Author, Fixture (2024).** *A Fixture Book*. Fixture Press.
+
+## Further Reading
+
+- **Author, Fixture (2024).** *Further Fixtures*. Fixture Press.`;
+}
+
+function readme(prompt: string): string {
+  const title = prompt.match(/^Title: (.+)$/m)?.[1] ?? 'Fixture Textbook';
+  return `# ${title}
+
+A fixture README produced by the fake provider.`;
+}
+
+const BUILDERS: { match: RegExp; build: (prompt: string) => string }[] = [
+  { match: /^Design a comprehensive course description/, build: courseDescription },
+  { match: /^Generate a learning graph/, build: learningGraph },
+  { match: /^Generate detailed chapter outlines/, build: chapterStructure },
+  { match: /^Write Chapter \d+ of/, build: chapterContent },
+  { match: /^Create a complete, self-contained interactive HTML MicroSim/, build: microsim },
+  { match: /^Generate a comprehensive glossary/, build: glossary },
+  { match: /^Define the following glossary terms/, build: glossary },
+  { match: /^Generate a comprehensive FAQ/, build: faq },
+  { match: /^Generate exactly 8 multiple-choice quiz questions/, build: quiz },
+  { match: /^Generate a comprehensive references page/, build: references },
+  { match: /^Write a GitHub README/, build: readme },
+];
+
+export function buildFixture(prompt: string): string {
+  const builder = BUILDERS.find(b => b.match.test(prompt));
+  return builder ? builder.build(prompt) : 'Fixture response.';
+}
+
+// Structured-output fixtures, keyed by schema name. Each returns the JSON value
+// the real provider would produce for that schema.
+const STRUCTURED_BUILDERS: Record<string, (prompt: string) => unknown> = {
+  record_concepts: prompt => ({ concepts: fixtureConcepts(prompt) }),
+};
+
+export function buildStructuredFixture(schemaName: string, prompt: string): string {
+  const builder = STRUCTURED_BUILDERS[schemaName];
+  if (!builder) {
+    throw new Error(`Fake provider has no fixture for structured output "${schemaName}"`);
+  }
+  return JSON.stringify(builder(prompt));
+}
@@ -0,0 +1,77 @@
+import { join } from 'node:path';
+import type { LLMProvider, ProviderName, TextbookConfig } from '../types.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAICompatibleProvider } from './openai.js';
+import { FakeProvider } from './fake.js';
+import { RetryingProvider } from './retry.js';
+import { CachingProvider } from './cache.js';
+import { RecordingProvider, ReplayProvider, CassetteMissError, cassetteKey } from './cassette.js';
+
+export const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'fake'];
+
+type ProviderConfig = Partial<
+  Pick<
+    TextbookConfig,
+    | 'provider'
+    | 'baseUrl'
+    | 'record'
+    | 'replay'
+    | 'concurrency'
+    | 'maxRetries'
+    | 'requestTimeoutMs'
+    | 'cache'
+    | 'cacheDir'
+    | 'outputDir'
+  >
+>;
+
+export function cacheDirFor(config: ProviderConfig): string | null {
+  if (!config.cache) return null;
+  if (config.cacheDir) return config.cacheDir;
+  return config.outputDir ? join(config.outputDir, '.cache', 'llm') : null;
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  if (config.record && config.replay) {
+    throw new Error('Cannot record and replay a cassette at the same time.');
+  }
+  if (config.replay) {
+    return new ReplayProvider(config.replay);
+  }
+
+  let provider: LLMProvider = new RetryingProvider(createBaseProvider(config), {
+    concurrency: config.concurrency,
+    maxRetries: config.maxRetries,
+    timeoutMs: config.requestTimeoutMs,
+  });
+
+  const cacheDir = cacheDirFor(config);
+  if (cacheDir) provider = new CachingProvider(provider, cacheDir, config.baseUrl);
+
+  return config.record ? new RecordingProvider(provider, config.record) : provider;
+}
+
+function createBaseProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider ?? 'anthropic') {
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider(config.baseUrl);
+    case 'fake':
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown provider "${config.provider}". Valid providers: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+export {
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  FakeProvider,
+  RetryingProvider,
+  CachingProvider,
+  RecordingProvider,
+  ReplayProvider,
+  CassetteMissError,
+  cassetteKey,
+};
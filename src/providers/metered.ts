@@ -0,0 +1,19 @@
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+import type { UsageTracker } from '../usage.js';
+
+/**
+ * Reports the token usage of every completed call to a tracker.
+ */
+export class MeteredProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: LLMProvider, private readonly tracker: UsageTracker) {
+    this.name = inner.name;
+  }
+
+  async complete(request: GenerateRequest, options?: CompleteOptions): Promise<GenerateResponse> {
+    const response = await this.inner.complete(request, options);
+    this.tracker.record(request.model, response.usage);
+    return response;
+  }
+}
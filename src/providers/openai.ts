@@ -0,0 +1,68 @@
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+import { HttpStatusError } from './retry.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API —
+ * OpenAI itself, or a local llama.cpp / Ollama / vLLM server.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(baseUrl?: string, apiKey?: string) {
+    this.baseUrl = (baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = apiKey ?? process.env.OPENAI_API_KEY;
+  }
+
+  async complete(request: GenerateRequest, options: CompleteOptions = {}): Promise<GenerateResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        ...(request.schema
+          ? {
+              response_format: {
+                type: 'json_schema',
+                json_schema: { name: request.schema.name, schema: request.schema.schema },
+              },
+            }
+          : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      throw new HttpStatusError(
+        `OpenAI-compatible request to ${this.baseUrl} failed: ${res.status} ${res.statusText} ${body}`.trim(),
+        res.status,
+        Object.fromEntries(res.headers.entries())
+      );
+    }
+
+    const json = (await res.json()) as ChatCompletionResponse;
+    return {
+      text: json.choices?.[0]?.message?.content ?? '',
+      usage: json.usage
+        ? { inputTokens: json.usage.prompt_tokens ?? 0, outputTokens: json.usage.completion_tokens ?? 0 }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { HttpStatusError, RequestTimeoutError, RetryingProvider, retryAfterMs } from './retry.js';
+import type { CompleteOptions, GenerateRequest, GenerateResponse, LLMProvider } from '../types.js';
+
+const request: GenerateRequest = { prompt: 'Explain qubits', system: 'You teach.', model: 'test-model', maxTokens: 100 };
+
+// Short delays so retries don't slow the suite down
+const fast = { baseDelayMs: 1, maxDelayMs: 10 };
+
+/** A provider that answers each call with the next scripted step. */
+function stub(steps: ((options?: CompleteOptions) => Promise<GenerateResponse>)[]): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'stub',
+    calls: 0,
+    complete: (_request: GenerateRequest, options?: CompleteOptions) => {
+      const step = steps[Math.min(provider.calls, steps.length - 1)];
+      provider.calls++;
+      return step(options);
+    },
+  };
+  return provider;
+}
+
+const ok = (text: string) => async () => ({ text });
+const fail = (status: number, headers: Record<string, string> = {}) => async (): Promise<GenerateResponse> => {
+  throw new HttpStatusError(`HTTP ${status}`, status, headers);
+};
+
+test('retries a 429 and returns the later success', async () => {
+  const inner = stub([fail(429), ok('answer')]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 3 });
+
+  assert.deepEqual(await provider.complete(request), { text: 'answer' });
+  assert.equal(inner.calls, 2);
+});
+
+test('waits at least as long as retry-after asks', async () => {
+  const inner = stub([fail(429, { 'retry-after-ms': '60' }), ok('answer')]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 1 });
+
+  const start = Date.now();
+  await provider.complete(request);
+  assert.ok(Date.now() - start >= 60, 'retried before retry-after elapsed');
+});
+
+test('does not retry a non-retryable error', async () => {
+  const inner = stub([fail(400), ok('answer')]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 3 });
+
+  await assert.rejects(provider.complete(request), (error: HttpStatusError) => error.status === 400);
+  assert.equal(inner.calls, 1);
+});
+
+test('gives up after maxRetries retries', async () => {
+  const inner = stub([fail(503)]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 2 });
+
+  await assert.rejects(provider.complete(request), (error: HttpStatusError) => error.status === 503);
+  assert.equal(inner.calls, 3);
+});
+
+test('times out a hung request, aborts it and retries', async () => {
+  const signals: AbortSignal[] = [];
+  const hang = async (options?: CompleteOptions): Promise<GenerateResponse> => {
+    signals.push(options!.signal!);
+    return new Promise(() => {});
+  };
+  const inner = stub([hang, ok('answer')]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 1, timeoutMs: 20 });
+
+  assert.deepEqual(await provider.complete(request), { text: 'answer' });
+  assert.equal(inner.calls, 2);
+  assert.equal(signals[0].aborted, true);
+});
+
+test('reports a timeout once retries run out', async () => {
+  const inner = stub([() => new Promise(() => {})]);
+  const provider = new RetryingProvider(inner, { ...fast, maxRetries: 0, timeoutMs: 20 });
+
+  await assert.rejects(provider.complete(request), RequestTimeoutError);
+});
+
+test('never runs more requests at once than the concurrency limit', async () => {
+  let active = 0;
+  let peak = 0;
+  const slow = async () => {
+    active++;
+    peak = Math.max(peak, active);
+    await sleep(10);
+    active--;
+    return { text: 'done' };
+  };
+  const provider = new RetryingProvider(stub([slow]), { ...fast, concurrency: 2 });
+
+  const results = await Promise.all(Array.from({ length: 6 }, () => provider.complete(request)));
+  assert.equal(results.length, 6);
+  assert.equal(peak, 2);
+});
+
+test('rejects invalid options', () => {
+  assert.throws(() => new RetryingProvider(stub([ok('x')]), { concurrency: NaN }), /concurrency/);
+  assert.throws(() => new RetryingProvider(stub([ok('x')]), { maxRetries: -1 }), /maxRetries/);
+  assert.throws(() => new RetryingProvider(stub([ok('x')]), { timeoutMs: 0 }), /timeoutMs/);
+});
+
+test('parses retry-after in milliseconds, seconds and as an HTTP date', () => {
+  assert.equal(retryAfterMs({ headers: { 'retry-after-ms': '250' } }), 250);
+  assert.equal(retryAfterMs({ headers: { 'retry-after': '2' } }), 2000);
+  const date = retryAfterMs({ headers: { 'retry-after': new Date(Date.now() + 5000).toUTCString() } })!;
+  assert.ok(date > 3000 && date <= 5000);
+  assert.equal(retryAfterMs({ headers: {} }), null);
+});
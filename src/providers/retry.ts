@@ -0,0 +1,169 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { LLMProvider, GenerateRequest, GenerateResponse, CompleteOptions } from '../types.js';
+
+export interface RetryOptions {
+  /** Maximum number of requests in flight at once. */
+  concurrency: number;
+  /** Retries after the first attempt for rate-limit, overload, timeout and network errors. */
+  maxRetries: number;
+  /** Per-attempt timeout in milliseconds. */
+  timeoutMs: number;
+  /** Base delay for exponential backoff in milliseconds. */
+  baseDelayMs: number;
+  /** Upper bound on any single backoff delay in milliseconds. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  concurrency: 4,
+  maxRetries: 5,
+  timeoutMs: 10 * 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+};
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Error thrown by HTTP-based providers so the retry layer can read the status
+ * and `retry-after` header the same way it does for Anthropic SDK errors.
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Record<string, string | null | undefined>
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  status?: number;
+  headers?: Record<string, string | null | undefined> | null;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof RequestTimeoutError) return true;
+  const e = (error ?? {}) as ErrorLike;
+  if (typeof e.status === 'number') return RETRYABLE_STATUS.has(e.status);
+  if (e.name === 'APIConnectionError' || e.name === 'APIConnectionTimeoutError') return true;
+  // Overload errors delivered mid-stream arrive without an HTTP status
+  return /overloaded|rate.?limit|fetch failed|ECONNRESET|ETIMEDOUT|socket hang up/i.test(e.message ?? '');
+}
+
+/**
+ * Parse `retry-after-ms` or `retry-after` (seconds or an HTTP date) into milliseconds.
+ */
+export function retryAfterMs(error: unknown): number | null {
+  const headers = (error as ErrorLike | null)?.headers;
+  if (!headers) return null;
+
+  const ms = Number(headers['retry-after-ms']);
+  if (headers['retry-after-ms'] && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const value = headers['retry-after'];
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wraps a provider with a concurrency limit, a per-request timeout and
+ * exponential backoff with full jitter on retryable errors.
+ */
+export class RetryingProvider implements LLMProvider {
+  readonly name: string;
+  private readonly options: RetryOptions;
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly inner: LLMProvider, options: Partial<RetryOptions> = {}) {
+    this.name = inner.name;
+    this.options = { ...DEFAULT_RETRY_OPTIONS };
+    for (const [key, value] of Object.entries(options) as [keyof RetryOptions, number | undefined][]) {
+      if (value !== undefined) this.options[key] = value;
+    }
+    const { concurrency, maxRetries, timeoutMs } = this.options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`concurrency must be a whole number of at least 1 (got ${concurrency}).`);
+    }
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(`maxRetries must be a whole number of at least 0 (got ${maxRetries}).`);
+    }
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`timeoutMs must be a positive number (got ${timeoutMs}).`);
+    }
+  }
+
+  async complete(request: GenerateRequest, options: CompleteOptions = {}): Promise<GenerateResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withSlot(() => this.attempt(request, options));
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error) || options.signal?.aborted) {
+          throw error;
+        }
+        await sleep(this.backoff(attempt, error));
+      }
+    }
+  }
+
+  private backoff(attempt: number, error: unknown): number {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    const jitter = Math.random() * ceiling;
+    const hinted = retryAfterMs(error);
+    // Never retry sooner than the server asked; add a little jitter so parallel callers spread out
+    return hinted !== null ? hinted + Math.random() * baseDelayMs : jitter;
+  }
+
+  private async attempt(request: GenerateRequest, options: CompleteOptions): Promise<GenerateResponse> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new RequestTimeoutError(this.options.timeoutMs));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([this.inner.complete(request, { signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async withSlot<T>(fn: () => Promise<T>): Promise<T> {
+    // A released slot is handed straight to the next waiter so it cannot be stolen in between
+    if (this.active >= this.options.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
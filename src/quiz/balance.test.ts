@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { moveAnswer } from './balance.js';
+import type { QuizQuestion } from '../types.js';
+
+const question = (explanation: string): QuizQuestion => ({
+  number: 1,
+  bloomLevel: 'Understand',
+  question: 'Which gate flips a qubit?',
+  options: ['Pauli-X', 'Hadamard', 'Phase', 'Identity'],
+  answer: 'A',
+  explanation,
+});
+
+// Deterministic stand-in for the seeded random source
+const first = () => 0;
+
+test('relabels explicit option references when the answer moves', () => {
+  const moved = moveAnswer(question('Option A flips the state; (C) and D) do not, unlike answer B.'), 'B', first);
+
+  assert.equal(moved.answer, 'B');
+  assert.equal(moved.options[1], 'Pauli-X');
+  const letter = (text: string) => ['A', 'B', 'C', 'D'][moved.options.indexOf(text)];
+  assert.equal(
+    moved.explanation,
+    `Option B flips the state; (${letter('Phase')}) and ${letter('Identity')}) do not, unlike answer ${letter('Hadamard')}.`
+  );
+});
+
+test('leaves prose that merely starts with a capital A–D alone', () => {
+  const prose = 'Pauli-X is the quantum NOT gate. (A common mistake is to pick the Hadamard gate.) Both act on one qubit.';
+  const moved = moveAnswer(question(prose), 'C', first);
+
+  assert.equal(moved.answer, 'C');
+  assert.equal(moved.explanation, prose);
+});
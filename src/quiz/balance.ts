@@ -0,0 +1,91 @@
+import type { AnswerLetter, Quiz, QuizQuestion } from '../types.js';
+import { ANSWER_LETTERS } from './parse.js';
+
+// FNV-1a: a stable seed from the quiz text, so reruns shuffle identically
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Reorder options so correct answers are spread evenly across A–D (two of
+ * each in an 8-question quiz). The order is derived from a hash of the quiz,
+ * so the same quiz always shuffles the same way. Letter references in the
+ * explanation ("option B", "(B)", "B)") are rewritten to match.
+ */
+export function balanceAnswers(quiz: Quiz): Quiz {
+  const random = seededRandom(hash(`${quiz.chapter}:${quiz.questions.map(q => q.question).join('|')}`));
+  const targets = shuffle(
+    quiz.questions.map((_, i) => ANSWER_LETTERS[i % ANSWER_LETTERS.length]),
+    random
+  );
+
+  return {
+    ...quiz,
+    questions: quiz.questions.map((q, i) => moveAnswer(q, targets[i], random)),
+  };
+}
+
+/**
+ * Move a question's correct option to `target`, shuffling the distractors into
+ * the remaining slots, and relabel letter references in the explanation.
+ */
+export function moveAnswer(q: QuizQuestion, target: AnswerLetter, random: () => number): QuizQuestion {
+  const from = ANSWER_LETTERS.indexOf(q.answer);
+  if (q.options.length !== ANSWER_LETTERS.length || from === -1) return q;
+
+  const to = ANSWER_LETTERS.indexOf(target);
+  const distractors = shuffle(
+    q.options.map((_, i) => i).filter(i => i !== from),
+    random
+  );
+
+  // newOrder[slot] = original index of the option shown in that slot
+  const newOrder: number[] = [];
+  for (let slot = 0; slot < ANSWER_LETTERS.length; slot++) {
+    newOrder.push(slot === to ? from : distractors.shift()!);
+  }
+
+  const letterFor = new Map<string, AnswerLetter>();
+  newOrder.forEach((original, slot) => letterFor.set(ANSWER_LETTERS[original], ANSWER_LETTERS[slot]));
+  const relabel = (letter: string) => letterFor.get(letter) ?? letter;
+
+  // One pass, so a relabelled letter is never relabelled again. Only explicit
+  // references count: "(A common mistake…)" starts a sentence, it is not option A.
+  const explanation = q.explanation.replace(
+    /\b((?:[Oo]ptions?|[Aa]nswers?|[Cc]hoices?)\s+)([A-D])\b|\(([A-D])\)|\b([A-D])\)/g,
+    (_match, prefix: string | undefined, named: string | undefined, wrapped: string | undefined, bare: string) =>
+      prefix !== undefined ? `${prefix}${relabel(named!)}` : wrapped ? `(${relabel(wrapped)})` : `${relabel(bare)})`
+  );
+
+  return {
+    ...q,
+    options: newOrder.map(i => q.options[i]),
+    answer: target,
+    explanation,
+  };
+}
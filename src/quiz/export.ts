@@ -0,0 +1,215 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Quiz, QuizQuestion } from '../types.js';
+import { ANSWER_LETTERS } from './parse.js';
+
+export const QUIZ_FORMATS = ['qti', 'gift', 'aiken', 'json'] as const;
+export type QuizFormat = (typeof QUIZ_FORMATS)[number];
+
+const EXTENSIONS: Record<QuizFormat, string> = {
+  qti: '.xml',
+  gift: '.gift.txt',
+  aiken: '.aiken.txt',
+  json: '.json',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ---------------------------------------------------------------------------
+// GIFT (Moodle)
+// ---------------------------------------------------------------------------
+
+function gift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n+/g, ' ');
+}
+
+function giftQuestion(quiz: Quiz, q: QuizQuestion): string {
+  const correct = ANSWER_LETTERS.indexOf(q.answer);
+  const options = q.options.map((o, i) => `  ${i === correct ? '=' : '~'}${gift(o)}`).join('\n');
+  return `// Bloom's level: ${q.bloomLevel}
+// [tag:bloom-${q.bloomLevel.toLowerCase()}] [tag:chapter-${quiz.chapter}]
+::Chapter ${quiz.chapter} Q${q.number} (${gift(q.bloomLevel)})::${gift(q.question)} {
+${options}
+  ####${gift(q.explanation)}
+}`;
+}
+
+export function toGift(quizzes: Quiz[]): string {
+  return quizzes
+    .map(quiz => `$CATEGORY: $course$/${oneLine(quiz.title).replace(/\//g, '-')}\n\n${quiz.questions.map(q => giftQuestion(quiz, q)).join('\n\n')}`)
+    .join('\n\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Aiken (Moodle). The format has no metadata fields, so the Bloom's level is
+// kept as a bracketed prefix on the question text.
+// ---------------------------------------------------------------------------
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+export function toAiken(quizzes: Quiz[]): string {
+  return quizzes
+    .flatMap(quiz => quiz.questions.map(q => [
+      `[${q.bloomLevel}] ${oneLine(q.question)}`,
+      ...q.options.map((o, i) => `${ANSWER_LETTERS[i]}. ${oneLine(o)}`),
+      `ANSWER: ${q.answer}`,
+    ].join('\n')))
+    .join('\n\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// QTI 1.2 (Canvas, Blackboard, D2L)
+// ---------------------------------------------------------------------------
+
+function xml(text: string | number): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function mattext(text: string): string {
+  return `<material><mattext texttype="text/plain">${xml(text)}</mattext></material>`;
+}
+
+function metadataField(label: string, entry: string): string {
+  return `<qtimetadatafield><fieldlabel>${xml(label)}</fieldlabel><fieldentry>${xml(entry)}</fieldentry></qtimetadatafield>`;
+}
+
+function qtiItem(quiz: Quiz, q: QuizQuestion): string {
+  const ident = `quiz-${pad(quiz.chapter)}-q${q.number}`;
+  const choices = q.options
+    .map((o, i) => `            <response_label ident="${ANSWER_LETTERS[i]}">${mattext(o)}</response_label>`)
+    .join('\n');
+
+  return `      <item ident="${ident}" title="Q${q.number} — ${xml(q.bloomLevel)}">
+        <itemmetadata>
+          <qtimetadata>
+            ${metadataField('question_type', 'multiple_choice_question')}
+            ${metadataField('points_possible', '1.0')}
+            ${metadataField('bloom_level', q.bloomLevel)}
+            ${metadataField('chapter', String(quiz.chapter))}
+          </qtimetadata>
+        </itemmetadata>
+        <presentation>
+          ${mattext(q.question)}
+          <response_lid ident="response1" rcardinality="Single">
+            <render_choice>
+${choices}
+            </render_choice>
+          </response_lid>
+        </presentation>
+        <resprocessing>
+          <outcomes><decvar maxvalue="100" minvalue="0" varname="SCORE" vartype="Decimal"/></outcomes>
+          <respcondition continue="Yes">
+            <conditionvar><other/></conditionvar>
+            <displayfeedback feedbacktype="Response" linkrefid="general_fb"/>
+          </respcondition>
+          <respcondition continue="No">
+            <conditionvar><varequal respident="response1">${q.answer}</varequal></conditionvar>
+            <setvar action="Set" varname="SCORE">100</setvar>
+          </respcondition>
+        </resprocessing>
+        <itemfeedback ident="general_fb"><flow_mat>${mattext(q.explanation)}</flow_mat></itemfeedback>
+      </item>`;
+}
+
+function qtiSection(quiz: Quiz): string {
+  return `    <section ident="chapter-${pad(quiz.chapter)}" title="${xml(quiz.title)}">
+${quiz.questions.map(q => qtiItem(quiz, q)).join('\n')}
+    </section>`;
+}
+
+/**
+ * One QTI assessment; a whole-book export gets one section per chapter.
+ */
+export function toQti(quizzes: Quiz[], ident: string, title: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2"
+                 xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+                 xsi:schemaLocation="http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/xsd/ims_qtiasiv1p2p1.xsd">
+  <assessment ident="${xml(ident)}" title="${xml(title)}">
+    <qtimetadata>${metadataField('cc_maxattempts', '1')}</qtimetadata>
+${quizzes.map(qtiSection).join('\n')}
+  </assessment>
+</questestinterop>
+`;
+}
+
+/**
+ * IMS content package manifest so the per-chapter QTI files can be zipped and
+ * imported into Canvas as one package.
+ */
+function qtiManifest(files: { ident: string; href: string }[]): string {
+  const resources = files
+    .map(f => `    <resource identifier="${xml(f.ident)}" type="imsqti_xmlv1p2" href="${xml(f.href)}">
+      <file href="${xml(f.href)}"/>
+    </resource>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="quiz-export" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1">
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+/**
+ * Write one file per chapter plus one for the whole book into `destDir`.
+ * Returns the paths written.
+ */
+export async function exportQuizzes(
+  quizzes: Quiz[],
+  format: QuizFormat,
+  destDir: string,
+  bookTitle: string
+): Promise<string[]> {
+  await mkdir(destDir, { recursive: true });
+  const ext = EXTENSIONS[format];
+
+  const render = (items: Quiz[], ident: string, title: string, whole = false): string => {
+    switch (format) {
+      case 'qti':
+        return toQti(items, ident, title);
+      case 'gift':
+        return toGift(items);
+      case 'aiken':
+        return toAiken(items);
+      case 'json':
+        return JSON.stringify(whole ? { title, quizzes: items } : items[0], null, 2) + '\n';
+    }
+  };
+
+  const written: string[] = [];
+  const chapterFiles: { ident: string; href: string }[] = [];
+
+  for (const quiz of quizzes) {
+    const ident = `quiz-${pad(quiz.chapter)}`;
+    const href = `${ident}${ext}`;
+    await writeFile(join(destDir, href), render([quiz], ident, quiz.title), 'utf8');
+    written.push(join(destDir, href));
+    chapterFiles.push({ ident, href });
+  }
+
+  const bookFile = join(destDir, `all-quizzes${ext}`);
+  await writeFile(bookFile, render(quizzes, 'all-quizzes', `${bookTitle} — All Quizzes`, true), 'utf8');
+  written.push(bookFile);
+
+  if (format === 'qti') {
+    const manifest = join(destDir, 'imsmanifest.xml');
+    await writeFile(manifest, qtiManifest(chapterFiles), 'utf8');
+    written.push(manifest);
+  }
+
+  return written;
+}
@@ -0,0 +1,37 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Quiz } from '../types.js';
+import { parseQuizMarkdown } from './parse.js';
+
+/**
+ * Load every chapter quiz of a generated book, ordered by chapter. The
+ * structured quiz-NN.json is preferred; books generated before it existed
+ * fall back to parsing quiz-NN.md.
+ */
+export async function loadQuizzes(outputDir: string): Promise<Quiz[]> {
+  const quizzesDir = join(outputDir, 'docs', 'quizzes');
+  let entries: string[];
+  try {
+    entries = await readdir(quizzesDir);
+  } catch {
+    return [];
+  }
+
+  const chapters = [...new Set(
+    entries
+      .map(f => f.match(/^quiz-(\d+)\.(?:md|json)$/)?.[1])
+      .filter((n): n is string => n !== undefined)
+      .map(Number)
+  )].sort((a, b) => a - b);
+
+  const quizzes: Quiz[] = [];
+  for (const chapter of chapters) {
+    const name = `quiz-${String(chapter).padStart(2, '0')}`;
+    if (entries.includes(`${name}.json`)) {
+      quizzes.push(JSON.parse(await readFile(join(quizzesDir, `${name}.json`), 'utf8')) as Quiz);
+    } else {
+      quizzes.push(parseQuizMarkdown(await readFile(join(quizzesDir, `${name}.md`), 'utf8'), chapter));
+    }
+  }
+  return quizzes;
+}
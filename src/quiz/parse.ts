@@ -0,0 +1,110 @@
+import type { AnswerLetter, Quiz, QuizQuestion } from '../types.js';
+
+export const ANSWER_LETTERS: AnswerLetter[] = ['A', 'B', 'C', 'D'];
+
+/**
+ * Parse a quiz written in the quiz prompt's markdown format:
+ *
+ *   ## Q1 — Remember
+ *   **Question?**
+ *   - A) ... (through D)
+ *   ??? success "Answer"
+ *       **Correct answer: B**
+ *       Explanation: ...
+ *
+ * Parsing is lenient; validateQuiz reports whatever is missing.
+ */
+export function parseQuizMarkdown(raw: string, chapter: number): Quiz {
+  const text = raw.replace(/\r\n/g, '\n').replace(/^```(?:markdown|md)?\s*\n/i, '').replace(/\n```\s*$/, '');
+  const title = text.match(/^# (.+)$/m)?.[1]?.trim() ?? `Chapter ${chapter} Quiz`;
+
+  const headings = [...text.matchAll(/^##\s*Q(\d+)\s*(?:[—–:-]+\s*(.*))?$/gm)];
+  const firstAt = headings[0]?.index ?? text.length;
+  const intro = text
+    .slice(0, firstAt)
+    .replace(/^# .+$/m, '')
+    .trim();
+
+  const questions = headings.map((h, i) => {
+    const end = headings[i + 1]?.index ?? text.length;
+    return parseQuestion(text.slice(h.index! + h[0].length, end), Number(h[1]), (h[2] ?? '').trim());
+  });
+
+  return { chapter, title, intro, questions };
+}
+
+function parseQuestion(block: string, number: number, bloomLevel: string): QuizQuestion {
+  const lines = block.split('\n');
+  const options: string[] = [];
+  let question = '';
+  let answer = '';
+  const explanation: string[] = [];
+  let inExplanation = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (/^-{3,}$/.test(trimmed)) break;
+
+    const correct = trimmed.match(/Correct answer:?\**\s*:?\s*\(?([A-D])\b/i);
+    if (correct) {
+      answer = correct[1].toUpperCase();
+      continue;
+    }
+
+    const explained = trimmed.match(/^\**Explanation:?\**:?\s*(.*)$/i);
+    if (explained) {
+      inExplanation = true;
+      if (explained[1]) explanation.push(explained[1]);
+      continue;
+    }
+    if (inExplanation) {
+      if (trimmed) explanation.push(trimmed);
+      continue;
+    }
+
+    const option = trimmed.match(/^(?:[-*]\s*)?\**([A-D])[).:]\**\s+(.+)$/);
+    if (option && !/^\?\?\?/.test(trimmed)) {
+      options.push(option[2].trim());
+      continue;
+    }
+
+    if (!question && trimmed && !trimmed.startsWith('???')) {
+      question = trimmed.replace(/^\*\*(.+)\*\*$/, '$1').trim();
+    }
+  }
+
+  return {
+    number,
+    bloomLevel,
+    question,
+    options,
+    answer: answer as AnswerLetter,
+    explanation: explanation.join(' ').trim(),
+  };
+}
+
+/**
+ * Render a quiz back to the MkDocs markdown format (collapsible answers).
+ */
+export function renderQuizMarkdown(quiz: Quiz): string {
+  const questions = quiz.questions.map(q => {
+    const options = q.options.map((o, i) => `- ${ANSWER_LETTERS[i]}) ${o}`).join('\n');
+    return `## Q${q.number} — ${q.bloomLevel}
+
+**${q.question}**
+
+${options}
+
+??? success "Answer"
+    **Correct answer: ${q.answer}**
+
+    Explanation: ${q.explanation}
+
+---`;
+  });
+
+  return `# ${quiz.title}
+
+${quiz.intro ? `${quiz.intro}\n\n` : ''}${questions.join('\n\n')}
+`;
+}
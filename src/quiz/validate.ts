@@ -0,0 +1,45 @@
+import type { Quiz } from '../types.js';
+import { ANSWER_LETTERS } from './parse.js';
+
+export const QUESTIONS_PER_QUIZ = 8;
+export const OPTIONS_PER_QUESTION = 4;
+
+/**
+ * Check a parsed quiz: exactly 8 questions, each with text, 4 distinct options
+ * and an answer key pointing at one of them. Returns one message per problem.
+ */
+export function validateQuiz(quiz: Quiz): string[] {
+  const issues: string[] = [];
+
+  if (quiz.questions.length !== QUESTIONS_PER_QUIZ) {
+    issues.push(`Expected exactly ${QUESTIONS_PER_QUIZ} questions, found ${quiz.questions.length}`);
+  }
+
+  for (const q of quiz.questions) {
+    const label = `Q${q.number}`;
+    if (!q.question) issues.push(`${label} has no question text`);
+    if (!q.bloomLevel) issues.push(`${label} has no Bloom's level in its heading`);
+
+    if (q.options.length !== OPTIONS_PER_QUESTION) {
+      issues.push(`${label} has ${q.options.length} options instead of ${OPTIONS_PER_QUESTION}`);
+    }
+
+    const seen = new Set<string>();
+    for (const option of q.options) {
+      const key = option.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (seen.has(key)) issues.push(`${label} repeats the option "${option}"`);
+      seen.add(key);
+    }
+
+    const index = ANSWER_LETTERS.indexOf(q.answer);
+    if (index === -1) {
+      issues.push(`${label} has no answer key ("Correct answer: X")`);
+    } else if (index >= q.options.length) {
+      issues.push(`${label} answer ${q.answer} does not match any option`);
+    }
+
+    if (!q.explanation) issues.push(`${label} has no explanation`);
+  }
+
+  return issues;
+}
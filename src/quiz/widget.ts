@@ -0,0 +1,157 @@
+import type { Quiz, TextbookConfig } from '../types.js';
+
+export const QUIZ_STYLES: NonNullable<TextbookConfig['quizStyle']>[] = ['static', 'interactive'];
+
+/**
+ * Self-contained, self-scoring quiz page. The quiz is inlined as JSON and the
+ * page has no external dependencies, so it works on an offline site.
+ *
+ * Clicking an option locks the question, marks it correct or incorrect, shows
+ * the explanation and updates the running score; once every question is
+ * answered a per-Bloom's-level breakdown is shown.
+ */
+export function buildQuizWidgetHtml(quiz: Quiz): string {
+  // Escape "<" so quiz text can never close the inline <script>
+  const data = JSON.stringify(quiz).replace(/</g, '\\u003c');
+  const safeTitle = quiz.title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${safeTitle}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 16px; font: 15px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #212121; background: #fff; }
+  #score { position: sticky; top: 0; z-index: 1; display: flex; justify-content: space-between; gap: 12px; padding: 8px 12px; margin-bottom: 16px;
+           background: #1a237e; color: #fff; border-radius: 6px; font-weight: 600; }
+  .question { border: 1px solid #e0e0e0; border-radius: 8px; padding: 14px 16px; margin-bottom: 14px; }
+  .meta { font-size: 12px; text-transform: uppercase; letter-spacing: 0.04em; color: #757575; margin-bottom: 4px; }
+  .stem { font-weight: 600; margin-bottom: 10px; }
+  .option { display: block; width: 100%; text-align: left; padding: 8px 12px; margin: 6px 0; font: inherit; color: inherit;
+            background: #fafafa; border: 1px solid #cfd8dc; border-radius: 6px; cursor: pointer; }
+  .option:hover:not(:disabled) { background: #e8eaf6; border-color: #3949ab; }
+  .option:disabled { cursor: default; }
+  .option.correct { background: #e8f5e9; border-color: #2e7d32; }
+  .option.incorrect { background: #ffebee; border-color: #c62828; }
+  .letter { font-weight: 700; margin-right: 6px; }
+  .feedback { display: none; margin-top: 10px; padding: 10px 12px; border-radius: 6px; }
+  .feedback.correct { display: block; background: #e8f5e9; }
+  .feedback.incorrect { display: block; background: #ffebee; }
+  #results { display: none; border: 2px solid #1a237e; border-radius: 8px; padding: 14px 16px; }
+  #results table { border-collapse: collapse; width: 100%; margin: 8px 0 12px; }
+  #results th, #results td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e0e0e0; }
+  #retry { padding: 8px 16px; font: inherit; color: #fff; background: #ff6d00; border: none; border-radius: 6px; cursor: pointer; }
+</style>
+</head>
+<body>
+<div id="score" role="status" aria-live="polite"><span id="progress"></span><span id="points"></span></div>
+<div id="questions"></div>
+<div id="results" aria-live="polite"></div>
+<script>
+const QUIZ = ${data};
+const LETTERS = ['A', 'B', 'C', 'D'];
+let answers = {};
+
+function el(tag, className, text) {
+  const e = document.createElement(tag);
+  if (className) e.className = className;
+  if (text !== undefined) e.textContent = text;
+  return e;
+}
+
+function updateScore() {
+  const answered = Object.keys(answers).length;
+  const correct = Object.values(answers).filter(Boolean).length;
+  document.getElementById('progress').textContent = 'Answered ' + answered + ' of ' + QUIZ.questions.length;
+  document.getElementById('points').textContent = 'Score: ' + correct + ' / ' + answered;
+  if (answered === QUIZ.questions.length) showResults();
+}
+
+function choose(q, index, buttons, feedback) {
+  if (q.number in answers) return;
+  const correctIndex = LETTERS.indexOf(q.answer);
+  const isCorrect = index === correctIndex;
+  answers[q.number] = isCorrect;
+
+  buttons.forEach((b, i) => {
+    b.disabled = true;
+    if (i === correctIndex) b.classList.add('correct');
+    if (i === index && !isCorrect) b.classList.add('incorrect');
+  });
+  feedback.className = 'feedback ' + (isCorrect ? 'correct' : 'incorrect');
+  feedback.textContent = '';
+  feedback.append(el('strong', '', isCorrect ? 'Correct! ' : 'Not quite — the answer is ' + q.answer + '. '), q.explanation);
+  updateScore();
+}
+
+function showResults() {
+  const levels = [];
+  const byLevel = {};
+  for (const q of QUIZ.questions) {
+    if (!byLevel[q.bloomLevel]) {
+      byLevel[q.bloomLevel] = { correct: 0, total: 0 };
+      levels.push(q.bloomLevel);
+    }
+    byLevel[q.bloomLevel].total++;
+    if (answers[q.number]) byLevel[q.bloomLevel].correct++;
+  }
+  const correct = Object.values(answers).filter(Boolean).length;
+  const pct = Math.round((100 * correct) / QUIZ.questions.length);
+
+  const results = document.getElementById('results');
+  results.textContent = '';
+  results.append(el('h2', '', 'Your result: ' + correct + ' / ' + QUIZ.questions.length + ' (' + pct + '%)'));
+
+  const table = el('table');
+  const head = el('tr');
+  ['Bloom\\'s level', 'Correct', 'Score'].forEach(h => head.append(el('th', '', h)));
+  table.append(head);
+  for (const level of levels) {
+    const r = byLevel[level];
+    const row = el('tr');
+    row.append(el('td', '', level), el('td', '', r.correct + ' / ' + r.total), el('td', '', Math.round((100 * r.correct) / r.total) + '%'));
+    table.append(row);
+  }
+  results.append(table);
+
+  const retry = el('button', '', 'Try again');
+  retry.id = 'retry';
+  retry.addEventListener('click', () => { render(); window.scrollTo(0, 0); });
+  results.append(retry);
+  results.style.display = 'block';
+  results.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+}
+
+function render() {
+  answers = {};
+  const container = document.getElementById('questions');
+  container.textContent = '';
+  document.getElementById('results').style.display = 'none';
+
+  for (const q of QUIZ.questions) {
+    const card = el('section', 'question');
+    card.append(el('div', 'meta', 'Question ' + q.number + ' · ' + q.bloomLevel));
+    card.append(el('div', 'stem', q.question));
+    const feedback = el('div', 'feedback');
+    const buttons = q.options.map((text, i) => {
+      const b = el('button', 'option');
+      b.type = 'button';
+      b.append(el('span', 'letter', LETTERS[i] + ')'), text);
+      b.addEventListener('click', () => choose(q, i, buttons, feedback));
+      card.append(b);
+      return b;
+    });
+    card.append(feedback);
+    container.append(card);
+  }
+  updateScore();
+}
+
+render();
+</script>
+</body>
+</html>
+`;
+}
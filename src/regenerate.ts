@@ -0,0 +1,104 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PipelineContext, TextbookConfig } from './types.js';
+import { loadState, restoreContext } from './state.js';
+import { createProvider } from './providers/index.js';
+import { parseCourseDescription } from './steps/course-description.js';
+import { parseConceptTable } from './steps/learning-graph.js';
+import { parseChaptersIndex } from './steps/chapter-structure.js';
+import { regenerateChapter } from './steps/chapter-content.js';
+import { regenerateQuiz } from './steps/quizzes.js';
+import { regenerateMicroSim } from './steps/microsims.js';
+import generateGlossary from './steps/glossary.js';
+
+export const REGENERATE_TARGETS = ['chapter', 'quiz', 'microsim', 'glossary'] as const;
+export type RegenerateTarget = (typeof REGENERATE_TARGETS)[number];
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function countSimFiles(simsDir: string): Promise<number> {
+  try {
+    const entries = await readdir(simsDir);
+    return entries.filter(f => /^microsim-\d+\.html$/.test(f)).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Rebuild a pipeline context from an existing textbook on disk. The state
+ * file is used when present; otherwise the course description, concept map
+ * and chapter index are parsed back out of the generated markdown.
+ */
+export async function loadContextFromOutput(
+  outputDir: string,
+  overrides: Partial<TextbookConfig> = {}
+): Promise<PipelineContext> {
+  const state = await loadState(outputDir);
+  if (state) {
+    const config: TextbookConfig = { ...state.config, ...overrides, outputDir };
+    const ctx: PipelineContext = { config, outputDir, provider: createProvider(config) };
+    restoreContext(ctx, state);
+    return ctx;
+  }
+
+  const docsDir = join(outputDir, 'docs');
+  const courseMd = await readOptional(join(docsDir, 'course-description.md'));
+  const conceptMd = await readOptional(join(docsDir, 'learning-graph', 'concept-map.md'));
+  const indexMd = await readOptional(join(docsDir, 'chapters', 'index.md'));
+
+  if (!courseMd && !conceptMd && !indexMd) {
+    throw new Error(`No textbook found in ${outputDir} (missing state file and docs/).`);
+  }
+
+  const concepts = conceptMd ? parseConceptTable(conceptMd) : [];
+  const chapters = indexMd ? parseChaptersIndex(indexMd, concepts) : [];
+  const chapterCount = chapters.length || Math.max(0, ...concepts.map(c => c.chapter));
+  const courseDescription = courseMd
+    ? parseCourseDescription(courseMd, overrides.topic ?? '', chapterCount)
+    : undefined;
+
+  const config: TextbookConfig = {
+    topic: courseDescription?.title || 'Untitled',
+    chapters: chapterCount,
+    microsims: await countSimFiles(join(docsDir, 'microsims')),
+    concepts: concepts.length,
+    outputDir,
+    model: 'claude-sonnet-4-5',
+    deploy: 'none',
+    ...overrides,
+  };
+  config.outputDir = outputDir;
+
+  return { config, outputDir, courseDescription, concepts, chapters, provider: createProvider(config) };
+}
+
+/**
+ * Rerun a single artifact of an existing textbook.
+ */
+export async function regenerate(
+  ctx: PipelineContext,
+  target: RegenerateTarget,
+  number?: number
+): Promise<void> {
+  if (target !== 'glossary' && (number === undefined || !Number.isInteger(number) || number < 1)) {
+    throw new Error(`"regenerate ${target}" needs a positive number, e.g. "regenerate ${target} 3".`);
+  }
+
+  switch (target) {
+    case 'chapter':
+      return regenerateChapter(ctx, number!);
+    case 'quiz':
+      return regenerateQuiz(ctx, number!);
+    case 'microsim':
+      return regenerateMicroSim(ctx, number!);
+    case 'glossary':
+      return generateGlossary(ctx);
+  }
+}
@@ -0,0 +1,75 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PipelineContext, TextbookConfig, CourseDescription, Concept, ChapterOutline } from './types.js';
+import { UsageTracker, resolvePrices, type UsageSnapshot } from './usage.js';
+
+export const STATE_FILENAME = '.textbook-state.json';
+const STATE_VERSION = 1;
+
+export interface PipelineState {
+  version: number;
+  config: TextbookConfig;
+  completedSteps: string[];
+  courseDescription?: CourseDescription;
+  concepts?: Concept[];
+  chapters?: ChapterOutline[];
+  usage?: UsageSnapshot;
+  updatedAt: string;
+}
+
+export function statePath(outputDir: string): string {
+  return join(outputDir, STATE_FILENAME);
+}
+
+/**
+ * Load the checkpoint written by a previous run, or null if there is none.
+ */
+export async function loadState(outputDir: string): Promise<PipelineState | null> {
+  let raw: string;
+  try {
+    raw = await readFile(statePath(outputDir), 'utf8');
+  } catch {
+    return null;
+  }
+
+  const state = JSON.parse(raw) as PipelineState;
+  if (state.version !== STATE_VERSION) {
+    throw new Error(`Unsupported state file version ${state.version} in ${statePath(outputDir)}`);
+  }
+  return state;
+}
+
+/**
+ * Persist the context and completed steps. Written to a temp file first and
+ * renamed so an interrupted write never leaves a truncated checkpoint behind.
+ */
+export async function saveState(ctx: PipelineContext, completedSteps: string[]): Promise<void> {
+  const state: PipelineState = {
+    version: STATE_VERSION,
+    config: ctx.config,
+    completedSteps,
+    courseDescription: ctx.courseDescription,
+    concepts: ctx.concepts,
+    chapters: ctx.chapters,
+    usage: ctx.usage?.toJSON(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await mkdir(ctx.outputDir, { recursive: true });
+  const target = statePath(ctx.outputDir);
+  const tmp = `${target}.tmp`;
+  await writeFile(tmp, JSON.stringify(state, null, 2), 'utf8');
+  await rename(tmp, target);
+}
+
+/**
+ * Copy the checkpointed context fields back onto a fresh context.
+ */
+export function restoreContext(ctx: PipelineContext, state: PipelineState): void {
+  ctx.courseDescription = state.courseDescription;
+  ctx.concepts = state.concepts;
+  ctx.chapters = state.chapters;
+  if (state.usage) {
+    ctx.usage = new UsageTracker(resolvePrices(ctx.config), state.usage);
+  }
+}
@@ -1,44 +1,185 @@
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { generateParallel } from '../claude.js';
+import { generate } from '../claude.js';
 import type { PipelineContext, ChapterOutline, Concept } from '../types.js';
+import { checkChapter, type ChapterIssue } from '../chapter/quality.js';
+import type { ContentStats } from '../chapter/analyze.js';
+import { crossLinkChapters } from './glossary.js';
+import { fixMermaidBlocks } from './diagrams.js';
 
 const SYSTEM = `You are an expert technical author and educator producing content for an intelligent textbook.
 Your writing is rigorous, precise, and engaging. You use concrete examples, analogies, and visual structures
 (tables, diagrams, callout boxes) to make complex ideas accessible without sacrificing depth.
 You write for practitioners who want to genuinely understand a domain, not just pass a test.`;
 
+/** Extra attempts for a chapter that fails the quality gate, unless configured. */
+const DEFAULT_CHAPTER_RETRIES = 2;
+
+interface ChapterQuality {
+  chapter: number;
+  title: string;
+  attempts: number;
+  /** Whether a truncated draft was completed with a continuation request. */
+  repaired: boolean;
+  passed: boolean;
+  stats: ContentStats;
+  issues: ChapterIssue[];
+}
+
 export default async function generateChapterContent(ctx: PipelineContext): Promise<void> {
-  const { topic, model } = ctx.config;
-  const title = ctx.courseDescription?.title ?? topic;
+  const title = ctx.courseDescription?.title ?? ctx.config.topic;
   const chapters = ctx.chapters ?? [];
-  const concepts = ctx.concepts ?? [];
 
   if (chapters.length === 0) {
     throw new Error('Chapter structure must be generated before chapter content.');
   }
 
-  // Build prompts for all chapters
-  const prompts = chapters.map(ch => ({
-    prompt: buildChapterPrompt(ch, concepts, title, topic),
-    system: SYSTEM,
-  }));
+  const results = await Promise.all(chapters.map(ch => generateChapter(ctx, ch, title)));
+
+  await Promise.all(chapters.map((ch, i) => writeChapter(ctx.outputDir, ch, results[i].content)));
+  await writeQualityReport(ctx, results.map(r => r.quality));
+}
+
+/**
+ * Regenerate a single chapter in place, leaving the rest of the book untouched.
+ */
+export async function regenerateChapter(ctx: PipelineContext, chapterNumber: number): Promise<void> {
+  const title = ctx.courseDescription?.title ?? ctx.config.topic;
+  const ch = (ctx.chapters ?? []).find(c => c.number === chapterNumber);
+
+  if (!ch) {
+    throw new Error(`Chapter ${chapterNumber} not found in the chapter structure.`);
+  }
+
+  const { content, quality } = await generateChapter(ctx, ch, title);
+  await writeChapter(ctx.outputDir, ch, content);
+  await writeQualityReport(ctx, [quality]);
+  await fixMermaidBlocks(ctx, [`chapters/chapter-${String(chapterNumber).padStart(2, '0')}.md`]);
+  // Re-apply glossary links if the book already has a glossary
+  await crossLinkChapters(ctx, chapterNumber);
+}
+
+/**
+ * Generate a chapter and check it against the quality gate. A truncated draft
+ * is completed with a continuation request; any other failure regenerates the
+ * chapter with the problems appended to the prompt. The draft with the fewest
+ * problems is kept when the retry budget runs out.
+ */
+async function generateChapter(
+  ctx: PipelineContext,
+  ch: ChapterOutline,
+  title: string
+): Promise<{ content: string; quality: ChapterQuality }> {
+  const { topic, model } = ctx.config;
+  // A NaN here would never end the retry loop, so anything but a whole number falls back to the default
+  const { chapterRetries } = ctx.config;
+  const retries = Number.isInteger(chapterRetries) && chapterRetries! >= 0 ? chapterRetries! : DEFAULT_CHAPTER_RETRIES;
+  const prompt = buildChapterPrompt(ch, ctx.concepts ?? [], title, topic);
+  const options = { system: SYSTEM, model, maxTokens: 16384, provider: ctx.provider };
+
+  let content = await generate(prompt, options);
+  let attempts = 1;
+  let repaired = false;
+  let best: { content: string; stats: ContentStats; issues: ChapterIssue[]; repaired: boolean } | undefined;
 
-  const results = await generateParallel(prompts, { model, maxTokens: 16384 });
+  for (;;) {
+    const { stats, issues } = checkChapter(content, ch);
+    if (!best || issues.length < best.issues.length) best = { content, stats, issues, repaired };
+    if (issues.length === 0 || attempts > retries) break;
+    attempts++;
+
+    if (issues.some(i => i.check === 'truncated')) {
+      const continuation = await generate(buildContinuationPrompt(ch, title, content), options);
+      content = `${content.trimEnd()}\n${continuation.trimStart()}`;
+      repaired = true;
+    } else {
+      const feedback = `\n\nA previous draft of this chapter was rejected because it:\n${issues.map(i => `- ${i.message}`).join('\n')}\nMake sure none of these problems recur.`;
+      content = await generate(prompt + feedback, options);
+      repaired = false;
+    }
+  }
+
+  return {
+    content: best.content,
+    quality: {
+      chapter: ch.number,
+      title: ch.title,
+      attempts,
+      repaired: best.repaired,
+      passed: best.issues.length === 0,
+      stats: best.stats,
+      issues: best.issues,
+    },
+  };
+}
 
+function buildContinuationPrompt(ch: ChapterOutline, textbookTitle: string, draft: string): string {
+  const tail = draft.slice(-3000);
+  return `Continue Chapter ${ch.number} ("${ch.title}") of the intelligent textbook "${textbookTitle}". The draft was cut off; its last part is below.
+
+---
+${tail}
+---
+
+Continue from exactly where the draft stops — do not repeat any of it. If it stopped inside a code block or Mermaid diagram, finish that block first.
+Then complete any remaining sections of the required structure: Practical Example or Case Study, Key Takeaways (5–7 bullets), Review Questions (5), and Further Reading (3–5 suggestions).
+Output only the continuation, with no preamble.`;
+}
+
+/**
+ * Write the per-chapter quality report. Results for chapters that were not
+ * generated in this run (e.g. a single-chapter regenerate) are kept.
+ */
+async function writeQualityReport(ctx: PipelineContext, results: ChapterQuality[]): Promise<void> {
+  const graphDir = join(ctx.outputDir, 'docs', 'learning-graph');
+  const jsonPath = join(graphDir, 'chapter-quality.json');
+
+  let previous: ChapterQuality[] = [];
+  try {
+    previous = (JSON.parse(await readFile(jsonPath, 'utf8')) as { chapters: ChapterQuality[] }).chapters;
+  } catch {
+    // No earlier report
+  }
+  const updated = new Set(results.map(r => r.chapter));
+  const chapters = [...previous.filter(r => !updated.has(r.chapter)), ...results].sort((a, b) => a.chapter - b.chapter);
+
+  await mkdir(graphDir, { recursive: true });
+  await writeFile(jsonPath, JSON.stringify({ chapters }, null, 2), 'utf8');
+  await writeFile(join(graphDir, 'chapter-quality.md'), buildQualityReportMd(chapters), 'utf8');
+}
+
+function buildQualityReportMd(results: ChapterQuality[]): string {
+  const passed = results.filter(r => r.passed).length;
+  const rows = results.map(r =>
+    `| ${r.chapter} | ${r.title} | ${r.passed ? '✅ Pass' : '❌ Fail'} | ${r.attempts}${r.repaired ? ' (continued)' : ''} | ${r.stats.words.toLocaleString()} | ${r.stats.mermaidDiagrams} | ${r.stats.tables} |`
+  );
+  const failures = results
+    .filter(r => !r.passed)
+    .map(r => `### Chapter ${r.chapter}: ${r.title}\n\n${r.issues.map(i => `- **${i.check}** — ${i.message}`).join('\n')}`);
+
+  return `# Chapter Quality Report
+
+Every chapter is checked for a chapter header, Learning Objectives, at least 2 Mermaid diagrams and 2 tables,
+Key Takeaways, Review Questions, a length of 3,000–5,000 words, and signs of truncation.
+Failing chapters are regenerated with the problems added to the prompt; truncated chapters are continued instead.
+
+**${passed} of ${results.length} chapters pass.**
+
+| Chapter | Title | Result | Attempts | Words | Mermaid Diagrams | Tables |
+|---------|-------|--------|----------|-------|------------------|--------|
+${rows.join('\n')}
+${failures.length > 0 ? `\n## Remaining Problems\n\n${failures.join('\n\n')}\n` : ''}`;
+}
+
+async function writeChapter(outputDir: string, ch: ChapterOutline, result: string | undefined): Promise<void> {
   // Write each chapter as a flat file: docs/chapters/chapter-NN.md
   // (matches the mkdocs nav convention in mkdocs-config.ts)
-  const chaptersDir = join(ctx.outputDir, 'docs', 'chapters');
+  const chaptersDir = join(outputDir, 'docs', 'chapters');
   await mkdir(chaptersDir, { recursive: true });
 
-  await Promise.all(
-    chapters.map(async (ch, i) => {
-      const content = results[i] ?? `# Chapter ${ch.number}: ${ch.title}\n\nContent generation failed.`;
-      const paddedNum = String(ch.number).padStart(2, '0');
-      const filename = `chapter-${paddedNum}.md`;
-      await writeFile(join(chaptersDir, filename), content, 'utf8');
-    })
-  );
+  const content = result ?? `# Chapter ${ch.number}: ${ch.title}\n\nContent generation failed.`;
+  const paddedNum = String(ch.number).padStart(2, '0');
+  await writeFile(join(chaptersDir, `chapter-${paddedNum}.md`), content, 'utf8');
 }
 
 function buildChapterPrompt(
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildChaptersIndex, parseChaptersIndex } from './chapter-structure.js';
+import type { ChapterOutline, Concept } from '../types.js';
+
+const concepts: Concept[] = [1, 2, 3].map(id => ({
+  id,
+  name: `Concept ${id}`,
+  chapter: id,
+  dependencies: [],
+  taxonomy: 'FOUND',
+  bloomLevel: 'Remember',
+}));
+
+test('round-trips titles and summaries containing pipes and brackets', () => {
+  const outlines: ChapterOutline[] = [
+    { number: 1, title: 'Qubits', summary: 'States written as |0⟩ and |1⟩ in Dirac notation.', concepts: [1] },
+    { number: 2, title: 'Gates [and](circuits)', summary: 'Plain summary.', concepts: [2] },
+    { number: 3, title: 'Either | Or', summary: 'Choosing between A | B.', concepts: [3] },
+  ];
+
+  const parsed = parseChaptersIndex(buildChaptersIndex('Quantum Computing', outlines), concepts);
+
+  assert.deepEqual(parsed, outlines);
+});
+
+test('escapes pipes so each row keeps three cells', () => {
+  const md = buildChaptersIndex('Quantum Computing', [
+    { number: 1, title: 'A | B', summary: 'x | y', concepts: [1] },
+  ]);
+  const row = md.split('\n').find(line => line.startsWith('| [Chapter 1'))!;
+
+  assert.equal(row.split(/(?<!\\)\|/).length - 2, 3);
+});
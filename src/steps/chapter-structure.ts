@@ -1,7 +1,7 @@
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { generate } from '../claude.js';
-import type { PipelineContext, ChapterOutline } from '../types.js';
+import type { PipelineContext, ChapterOutline, Concept } from '../types.js';
 
 const SYSTEM = `You are an expert curriculum architect and technical author.
 You design clear, coherent chapter structures that build knowledge progressively.
@@ -57,7 +57,7 @@ For each of the ${chapters} chapters, produce output in this exact format:
 Generate all ${chapters} chapters in sequence. Be specific to the domain — avoid vague generic language.
 Each summary should stand alone as a meaningful description of the chapter's intellectual content.`;
 
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192 });
+  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192, provider: ctx.provider });
 
   const chapterOutlines = parseChapterOutlines(raw, chapters, courseTopics, chapterConceptMap);
   ctx.chapters = chapterOutlines;
@@ -128,19 +128,31 @@ function parseChapterOutlines(
   return outlines.sort((a, b) => a.number - b.number);
 }
 
-function buildChaptersIndex(title: string, chapters: ChapterOutline[]): string {
+/** Backslash-escape characters that would end a link's text or a table cell early. */
+function escapeMarkdown(text: string, chars: RegExp): string {
+  return text.replace(chars, '\\$&');
+}
+
+/** Undo escapeMarkdown. */
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([|[\]])/g, '$1');
+}
+
+export function buildChaptersIndex(title: string, chapters: ChapterOutline[]): string {
   // Link to flat chapter files: chapter-NN.md (as expected by mkdocs-config nav)
   const rows = chapters
     .map(ch => {
       const paddedNum = String(ch.number).padStart(2, '0');
-      return `| [Chapter ${ch.number}: ${ch.title}](chapter-${paddedNum}.md) | ${ch.concepts.length} concepts | ${ch.summary} |`;
+      const linkText = escapeMarkdown(ch.title, /[|[\]]/g);
+      const summary = escapeMarkdown(ch.summary, /\|/g);
+      return `| [Chapter ${ch.number}: ${linkText}](chapter-${paddedNum}.md) | ${ch.concepts.length} concepts | ${summary} |`;
     })
     .join('\n');
 
   const links = chapters
     .map(ch => {
       const paddedNum = String(ch.number).padStart(2, '0');
-      return `- [Chapter ${ch.number}: ${ch.title}](chapter-${paddedNum}.md)`;
+      return `- [Chapter ${ch.number}: ${escapeMarkdown(ch.title, /[[\]]/g)}](chapter-${paddedNum}.md)`;
     })
     .join('\n');
 
@@ -159,3 +171,27 @@ ${rows}
 ${links}
 `;
 }
+
+/**
+ * Recover chapter outlines from a previously written chapters/index.md,
+ * undoing the escaping buildChaptersIndex applies to titles and summaries.
+ * The index does not list concept IDs, so they are re-derived from each concept's chapter.
+ */
+export function parseChaptersIndex(md: string, concepts: Concept[]): ChapterOutline[] {
+  const outlines: ChapterOutline[] = [];
+  const rowPattern = /^\|\s*\[Chapter\s+(\d+):\s*(.+?)\]\(chapter-\d+\.md\)\s*\|[^|]*\|\s*(.*?)\s*\|\s*$/;
+
+  for (const line of md.split('\n')) {
+    const m = line.match(rowPattern);
+    if (!m) continue;
+    const number = Number(m[1]);
+    outlines.push({
+      number,
+      title: unescapeMarkdown(m[2].trim()),
+      summary: unescapeMarkdown(m[3]),
+      concepts: concepts.filter(c => c.chapter === number).map(c => c.id),
+    });
+  }
+
+  return outlines.sort((a, b) => a.number - b.number);
+}
@@ -43,7 +43,7 @@ Each outcome should begin with a strong action verb appropriate to that Bloom's
 
 Write the full document in clean markdown. Be specific to the topic — avoid generic educational boilerplate.`;
 
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192 });
+  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192, provider: ctx.provider });
 
   const courseDescription = parseCourseDescription(raw, topic, chapters);
   ctx.courseDescription = courseDescription;
@@ -53,7 +53,7 @@ Write the full document in clean markdown. Be specific to the topic — avoid ge
   await writeFile(join(docsDir, 'course-description.md'), courseDescription.rawMarkdown, 'utf8');
 }
 
-function parseCourseDescription(raw: string, topic: string, chapters: number): CourseDescription {
+export function parseCourseDescription(raw: string, topic: string, chapters: number): CourseDescription {
   // Extract title
   const titleMatch = raw.match(/##\s+Course Title\s*\n+([^\n#]+)/i);
   const title = titleMatch ? titleMatch[1].trim() : topic;
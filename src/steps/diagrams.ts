@@ -0,0 +1,83 @@
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { generate } from '../claude.js';
+import type { PipelineContext } from '../types.js';
+import { findMermaidBlocks, lintMermaid, replaceMermaidBlock, type MermaidIssue } from '../mermaid/lint.js';
+
+const SYSTEM = `You are a Mermaid diagram expert. You fix syntax errors in Mermaid diagrams
+while keeping their meaning, nodes, edges and labels exactly as the author intended.`;
+
+const MAX_FIX_ATTEMPTS = 2;
+
+/**
+ * Lint every Mermaid block under docs/ and send the broken ones back to the
+ * model for a focused fix.
+ */
+export default async function checkDiagrams(ctx: PipelineContext): Promise<void> {
+  const docsDir = join(ctx.outputDir, 'docs');
+  const files = (await readdir(docsDir, { recursive: true })).filter(f => f.endsWith('.md'));
+  await fixMermaidBlocks(ctx, files);
+}
+
+/**
+ * Fix the broken Mermaid blocks of the given pages (paths relative to docs/).
+ * A block is replaced only when the fix has fewer problems than the original.
+ */
+export async function fixMermaidBlocks(ctx: PipelineContext, files: string[]): Promise<void> {
+  const docsDir = join(ctx.outputDir, 'docs');
+
+  await Promise.all(
+    files.map(async file => {
+      const filePath = join(docsDir, file);
+      let markdown: string;
+      try {
+        markdown = await readFile(filePath, 'utf8');
+      } catch {
+        return;
+      }
+
+      const page = markdown.match(/^#\s+(.+)$/m)?.[1].trim() ?? file;
+      const broken = findMermaidBlocks(markdown)
+        .map(block => ({ block, issues: lintMermaid(block.source) }))
+        .filter(b => b.issues.length > 0);
+      if (broken.length === 0) return;
+
+      const fixes = await Promise.all(broken.map(b => fixDiagram(ctx, b.block.source, b.issues, page)));
+
+      // Replace from the bottom up so earlier line positions stay valid
+      let updated = markdown;
+      for (let i = broken.length - 1; i >= 0; i--) {
+        if (fixes[i] !== broken[i].block.source) updated = replaceMermaidBlock(updated, broken[i].block, fixes[i]);
+      }
+      if (updated !== markdown) await writeFile(filePath, updated, 'utf8');
+    })
+  );
+}
+
+async function fixDiagram(ctx: PipelineContext, source: string, issues: MermaidIssue[], page: string): Promise<string> {
+  let best = { source, issues };
+
+  for (let attempt = 1; attempt <= MAX_FIX_ATTEMPTS && best.issues.length > 0; attempt++) {
+    const prompt = `Fix this Mermaid diagram from the textbook page "${page}". It fails these syntax checks:
+${best.issues.map(i => `- Line ${i.line}: ${i.message}`).join('\n')}
+
+\`\`\`mermaid
+${best.source}
+\`\`\`
+
+Rules:
+- Keep the diagram type, nodes, edges and wording — change only what is needed to make it valid
+- Wrap any node or edge label that contains brackets, parentheses, quotes or other special characters in double quotes, and write a literal double quote as #quot;
+- Close every bracket, quote, subgraph and block
+- Use only standard Mermaid diagram types and %%{init: ...}%% directives
+
+Return only the corrected diagram in a single \`\`\`mermaid fenced block.`;
+
+    const raw = await generate(prompt, { system: SYSTEM, model: ctx.config.model, maxTokens: 2048, provider: ctx.provider });
+    const fixed = (raw.match(/```(?:mermaid)?[^\n]*\n([\s\S]*?)```/)?.[1] ?? raw).trimEnd();
+    const fixedIssues = lintMermaid(fixed);
+    if (fixedIssues.length < best.issues.length) best = { source: fixed, issues: fixedIssues };
+  }
+
+  return best.source;
+}
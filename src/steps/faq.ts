@@ -38,7 +38,7 @@ Requirements:
 
 Output only valid markdown — no code fences around the document, no preamble, no commentary.`;
 
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192 });
+  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192, provider: ctx.provider });
 
   const docsDir = join(ctx.outputDir, 'docs');
   await mkdir(docsDir, { recursive: true });
@@ -1,7 +1,10 @@
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { generate } from '../claude.js';
-import type { PipelineContext } from '../types.js';
+import type { PipelineContext, Concept, GlossaryEntry } from '../types.js';
+import { glossaryAnchor, linkGlossaryTerms } from '../glossary/link.js';
+import { parseGlossary, type ParsedGlossary } from '../glossary/parse.js';
+import { validateGlossary, checkDefinition, matchEntries, DEFINITION_WORDS } from '../glossary/validate.js';
 
 const SYSTEM = `You are a technical lexicographer with expertise in ISO 11179 metadata standards and educational terminology.
 You write precise, non-circular definitions that a domain newcomer can understand while satisfying a domain expert.
@@ -11,14 +14,30 @@ Every definition you write:
 - Uses precise, unambiguous language
 - Avoids circular definitions (does not define a term by using the term)`;
 
+const MAX_FOLLOW_UPS = 2;
+
+const FORMAT_RULES = `For each term, use this format:
+
+**[Term Name]** *(Chapter N — Taxonomy)*
+: [Definition following ISO 11179 standards: genus-differentia form. One to three sentences (${DEFINITION_WORDS.min}–${DEFINITION_WORDS.max} words). Precise, non-circular, domain-accurate.]
+
+### ISO 11179 Definition Standards:
+1. Genus-differentia: "[Broader category] that [distinguishing characteristic]" — start from the category, never restate the term
+2. No circular definitions: do not use the term being defined (or its plural) in its own definition
+3. Include the essential distinguishing properties, not just examples
+4. Use active voice and present tense
+5. Avoid vague terms like "related to," "involving," or "concerned with"`;
+
+function conceptLine(c: Concept): string {
+  return `- ${c.name} (Chapter ${c.chapter}, ${c.taxonomy}, ${c.bloomLevel})`;
+}
+
 export default async function generateGlossary(ctx: PipelineContext): Promise<void> {
   const { topic, model } = ctx.config;
   const title = ctx.courseDescription?.title ?? topic;
   const concepts = ctx.concepts ?? [];
 
-  const conceptList = concepts
-    .map(c => `- ${c.name} (Chapter ${c.chapter}, ${c.taxonomy}, ${c.bloomLevel})`)
-    .join('\n');
+  const conceptList = concepts.map(conceptLine).join('\n');
 
   const prompt = `Generate a comprehensive glossary for the intelligent textbook: "${title}"
 
@@ -32,62 +51,144 @@ ${conceptList}
 
 Organize definitions alphabetically. Group under lettered headings (## A, ## B, etc.).
 
-For each term, use this format:
-
-**[Term Name]** *(Chapter N — Taxonomy)*
-: [Definition following ISO 11179 standards: genus-differentia form. One to three sentences. Precise, non-circular, domain-accurate.]
-
-### ISO 11179 Definition Standards:
-1. Genus-differentia: "A [term] is a [broader category] that [distinguishing characteristic]"
-2. No circular definitions: do not use the term being defined in its own definition
-3. Include the essential distinguishing properties, not just examples
-4. Use active voice and present tense
-5. Avoid vague terms like "related to," "involving," or "concerned with"
+${FORMAT_RULES}
 
 ### Additional Requirements:
-- Define every concept in the list above
+- Define every concept in the list above, using the concept name exactly as written, and no other terms
 - After the concept list, add a section "## Key Formulas and Relationships" with 3–5 important relationships between concepts (where applicable to the domain)
 - End with a section "## Further Reading" listing 3–5 key reference works for the domain
 
 Generate the complete glossary now. Start with an introduction paragraph, then alphabetical sections.`;
 
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192 });
+  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192, provider: ctx.provider });
+  const parsed = parseGlossary(raw);
+
+  // Record terms that are not concepts before they are dropped, then re-request
+  // missing and failing definitions
+  const extra = validateGlossary(parsed.entries, concepts).filter(i => i.kind === 'extra');
+  const entries = await repairEntries(ctx, matchEntries(parsed.entries, concepts), title);
+  const remaining = [...extra, ...validateGlossary(entries, concepts)];
 
-  const glossaryMd = buildGlossaryMd(title, topic, raw, concepts.length);
+  const glossaryMd = buildGlossaryMd(title, topic, parsed, entries);
 
   const docsDir = join(ctx.outputDir, 'docs');
   await mkdir(docsDir, { recursive: true });
   await writeFile(join(docsDir, 'glossary.md'), glossaryMd, 'utf8');
+  await writeFile(join(docsDir, 'glossary.json'), JSON.stringify({ title, entries, issues: remaining }, null, 2), 'utf8');
+
+  await crossLinkChapters(ctx);
+}
+
+/**
+ * Ask again, in one targeted call per round, for the concepts whose definition
+ * is missing, circular or out of range. A new definition replaces the old one
+ * only if it has fewer problems.
+ */
+async function repairEntries(ctx: PipelineContext, entries: GlossaryEntry[], title: string): Promise<GlossaryEntry[]> {
+  const concepts = ctx.concepts ?? [];
+  let current = entries;
+
+  for (let round = 0; round < MAX_FOLLOW_UPS; round++) {
+    const issues = validateGlossary(current, concepts).filter(i => i.kind !== 'extra');
+    if (issues.length === 0) break;
+
+    const failing = concepts.filter(c => issues.some(i => i.term === c.name));
+    const prompt = `Define the following glossary terms for the intelligent textbook: "${title}"
+
+Domain: ${ctx.config.topic}
+
+${failing.map(conceptLine).join('\n')}
+
+Earlier definitions of these terms were missing or rejected:
+${issues.map(i => `- ${i.message}`).join('\n')}
+
+${FORMAT_RULES}
+
+Output only the ${failing.length} definitions, using each term name exactly as written — no headings, no other terms.`;
+
+    const raw = await generate(prompt, { system: SYSTEM, model: ctx.config.model, maxTokens: 4096, provider: ctx.provider });
+    const fixes = matchEntries(parseGlossary(raw).entries, failing);
+    if (fixes.length === 0) break;
+
+    const byId = new Map(current.map(e => [e.conceptId, e]));
+    for (const fix of fixes) {
+      const old = byId.get(fix.conceptId);
+      if (!old || checkDefinition(fix.term, fix.definition).length < checkDefinition(old.term, old.definition).length) {
+        byId.set(fix.conceptId, fix);
+      }
+    }
+    current = concepts.flatMap(c => byId.get(c.id) ?? []);
+  }
+
+  return current;
+}
+
+/**
+ * Link the first mention of each concept in every chapter (or just `only`) to
+ * its glossary entry. Concepts without a glossary entry are not linked.
+ */
+export async function crossLinkChapters(ctx: PipelineContext, only?: number): Promise<void> {
+  const docsDir = join(ctx.outputDir, 'docs');
+  let glossaryMd: string;
+  let files: string[];
+  try {
+    glossaryMd = await readFile(join(docsDir, 'glossary.md'), 'utf8');
+    files = await readdir(join(docsDir, 'chapters'));
+  } catch {
+    return;
+  }
+
+  const entries = new Map(parseGlossary(glossaryMd).entries.map(e => [e.term.toLowerCase(), e.definition]));
+  const definitions = new Map<string, string>();
+  const terms = (ctx.concepts ?? [])
+    .map(c => c.name)
+    .filter(name => entries.has(name.toLowerCase()));
+  for (const name of terms) definitions.set(name, entries.get(name.toLowerCase())!);
+
+  const chapterFiles = files.filter(f => {
+    const n = f.match(/^chapter-(\d+)\.md$/)?.[1];
+    return n !== undefined && (only === undefined || Number(n) === only);
+  });
+
+  await Promise.all(
+    chapterFiles.map(async file => {
+      const filePath = join(docsDir, 'chapters', file);
+      const original = await readFile(filePath, 'utf8');
+      const linked = linkGlossaryTerms(original, terms, '../glossary.md', definitions);
+      if (linked !== original) await writeFile(filePath, linked, 'utf8');
+    })
+  );
 }
 
 function buildGlossaryMd(
   title: string,
   topic: string,
-  raw: string,
-  conceptCount: number
+  parsed: ParsedGlossary,
+  entries: GlossaryEntry[]
 ): string {
-  // Check if raw already has the intro — if so, prepend just a header
-  const hasAlphaHeaders = /^##\s+[A-Z]/m.test(raw);
+  const sorted = [...entries].sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base', numeric: true }));
+  const groups: string[] = [];
+  let letter = '';
+  for (const e of sorted) {
+    const first = e.term[0].toUpperCase();
+    if (first !== letter) {
+      letter = first;
+      groups.push(`## ${letter}`);
+    }
+    const meta = e.chapter ? ` *(Chapter ${e.chapter} — ${e.taxonomy})*` : '';
+    groups.push(`**${e.term}**{ #${glossaryAnchor(e.term)} }${meta}\n: ${e.definition}`);
+  }
 
-  if (hasAlphaHeaders) {
-    // The LLM returned well-structured content — prepend a page header
-    return `# Glossary: ${title}
+  const sections = parsed.sections.map(s => `## ${s.heading}\n\n${s.body}`);
 
-This glossary defines ${conceptCount} key concepts from the domain of ${topic},
+  return `# Glossary: ${title}
+
+This glossary defines ${entries.length} key concepts from the domain of ${topic},
 following ISO 11179 metadata standards for precision and non-circularity.
 Definitions are organized alphabetically and cross-referenced to the chapter where each concept is introduced.
 
----
-
-${raw}
-`;
-  }
-
-  // Fallback: raw content is usable as-is with a header
-  return `# Glossary: ${title}
-
-This glossary covers ${conceptCount} concepts from the domain of ${topic}.
+${parsed.intro ? `${parsed.intro}\n\n` : ''}---
 
-${raw}
+${[...groups, ...sections].join('\n\n')}
 `;
 }
@@ -1,11 +1,46 @@
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { generate } from '../claude.js';
-import type { PipelineContext, Concept } from '../types.js';
+import { generate, generateStructured, isStructuredOutputFailure } from '../claude.js';
+import type { PipelineContext, Concept, OutputSchema } from '../types.js';
+import { validateLearningGraph, repairLearningGraph, countIssues, type GraphIssue } from '../graph/validate.js';
+import { toLearningGraphJson, toLearningGraphCsv, toLearningGraphGraphML } from '../graph/export.js';
+import { buildGraphViewerHtml } from '../graph/viewer.js';
+import { findLearningPath } from '../graph/path.js';
+import { buildChapterDiagrams, buildChapterSummaryDiagram, DIAGRAM_LIMITS } from '../graph/diagrams.js';
 
 const SYSTEM = `You are an expert in knowledge graph design, learning science, and curriculum architecture.
 You map complex domains into precise, dependency-ordered concept graphs that guide learner progression.`;
 
+const BLOOM_LEVELS = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+const CONCEPT_SCHEMA: OutputSchema = {
+  name: 'record_concepts',
+  description: 'Record the concepts of the learning graph, in ID order.',
+  schema: {
+    type: 'object',
+    properties: {
+      concepts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', minimum: 1 },
+            name: { type: 'string' },
+            chapter: { type: 'integer', minimum: 1 },
+            dependencies: { type: 'array', items: { type: 'integer', minimum: 1 } },
+            taxonomy: { type: 'string', enum: ['Foundation', 'Core', 'Advanced'] },
+            bloomLevel: { type: 'string', enum: BLOOM_LEVELS },
+          },
+          required: ['id', 'name', 'chapter', 'dependencies', 'taxonomy', 'bloomLevel'],
+        },
+      },
+    },
+    required: ['concepts'],
+  },
+};
+
+type OutputFormat = 'json' | 'table';
+
 export default async function generateLearningGraph(ctx: PipelineContext): Promise<void> {
   const { topic, concepts: conceptCount, chapters, model } = ctx.config;
   const title = ctx.courseDescription?.title ?? topic;
@@ -15,26 +50,14 @@ export default async function generateLearningGraph(ctx: PipelineContext): Promi
     ? topicList.map((t, i) => `  Chapter ${i + 1}: ${t}`).join('\n')
     : `  ${chapters} chapters covering ${topic}`;
 
-  const prompt = `Generate a learning graph of exactly ${conceptCount} concepts for the intelligent textbook: "${title}"
+  const buildPrompt = (format: OutputFormat) => `Generate a learning graph of exactly ${conceptCount} concepts for the intelligent textbook: "${title}"
 
 Topic domain: ${topic}
 
 Chapters:
 ${chapterContext}
 
-Output a markdown table with exactly ${conceptCount} rows and these columns:
-| ID | Concept | Chapter | Dependencies | Taxonomy | Bloom's Level |
-
-Column rules:
-- ID: sequential integer starting at 1
-- Concept: precise name of the concept (2–6 words, noun phrase)
-- Chapter: integer 1–${chapters} indicating where this concept is taught
-- Dependencies: comma-separated IDs of prerequisite concepts (empty cell if none). Only reference lower-numbered IDs.
-- Taxonomy: exactly one of: Foundation | Core | Advanced
-  - Foundation = vocabulary, definitions, basic facts (Chapters 1–${Math.ceil(chapters / 3)})
-  - Core = processes, relationships, applications (Chapters ${Math.ceil(chapters / 3) + 1}–${Math.ceil((chapters * 2) / 3)})
-  - Advanced = synthesis, evaluation, design (Chapters ${Math.ceil((chapters * 2) / 3) + 1}–${chapters})
-- Bloom's Level: exactly one of: Remember | Understand | Apply | Analyze | Evaluate | Create
+${fieldRules(format, conceptCount, chapters)}
 
 Requirements:
 - Distribute concepts proportionally across all ${chapters} chapters
@@ -43,31 +66,251 @@ Requirements:
 - Advanced concepts (late chapters): ~20% of total, Bloom's: Evaluate/Create
 - Dependencies must be realistic — concept N can only depend on concepts with IDs < N
 - Each chapter should have at least 3 concepts
-- Output ONLY the markdown table — no preamble, no explanation, no trailing text`;
-
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 8192 });
+${format === 'json'
+    ? `- Record every concept with the ${CONCEPT_SCHEMA.name} tool`
+    : '- Output ONLY the markdown table — no preamble, no explanation, no trailing text'}`;
+
+  // Structured output first; scraping a markdown table is the fallback
+  let parsed = await requestConcepts(ctx, buildPrompt('json'));
+  if (parsed.length === 0) {
+    const raw = await generate(buildPrompt('table'), { system: SYSTEM, model, maxTokens: 8192, provider: ctx.provider });
+    parsed = parseConceptTable(raw);
+  }
+  parsed = await topUpConcepts(ctx, parsed, title, chapterContext);
 
-  const concepts = parseConceptTable(raw);
+  const { concepts, report } = await validateAndRepair(ctx, parsed);
   ctx.concepts = concepts;
 
   const graphDir = join(ctx.outputDir, 'docs', 'learning-graph');
   await mkdir(graphDir, { recursive: true });
 
   // Write concept map overview (matches mkdocs nav: learning-graph/concept-map.md)
-  const conceptMap = buildConceptMapMd(title, raw, concepts);
+  const conceptMap = buildConceptMapMd(title, concepts);
   await writeFile(join(graphDir, 'concept-map.md'), conceptMap, 'utf8');
 
   // Write dependency graph page (matches mkdocs nav: learning-graph/dependency-graph.md)
-  const dependencyGraph = buildDependencyGraphMd(title, concepts, chapters);
+  const dependencyGraph = buildDependencyGraphMd(title, concepts, chapters, topicList, report);
   await writeFile(join(graphDir, 'dependency-graph.md'), dependencyGraph, 'utf8');
+
+  // Machine-readable exports for vis-network viewers, spreadsheets and graph tools
+  await writeFile(join(graphDir, 'learning-graph.json'), JSON.stringify(toLearningGraphJson(title, concepts), null, 2), 'utf8');
+  await writeFile(join(graphDir, 'learning-graph.csv'), toLearningGraphCsv(concepts), 'utf8');
+  await writeFile(join(graphDir, 'learning-graph.graphml'), toLearningGraphGraphML(title, concepts), 'utf8');
+
+  // Interactive viewer (matches mkdocs nav: learning-graph/graph-viewer.md)
+  await writeFile(join(graphDir, 'graph-viewer.html'), buildGraphViewerHtml(title, concepts), 'utf8');
+  await writeFile(join(graphDir, 'graph-viewer.md'), buildGraphViewerMd(title, concepts), 'utf8');
+
+  // Write learning paths page (matches mkdocs nav: learning-graph/learning-paths.md)
+  await writeFile(join(graphDir, 'learning-paths.md'), buildLearningPathsMd(title, concepts, topicList), 'utf8');
+}
+
+function fieldRules(format: OutputFormat, conceptCount: number, chapters: number): string {
+  const [id, name, chapter, deps, taxonomy, bloom] =
+    format === 'json'
+      ? ['id', 'name', 'chapter', 'dependencies', 'taxonomy', 'bloomLevel']
+      : ['ID', 'Concept', 'Chapter', 'Dependencies', 'Taxonomy', "Bloom's Level"];
+
+  const intro =
+    format === 'json'
+      ? `Return exactly ${conceptCount} concept objects with these fields:`
+      : `Output a markdown table with exactly ${conceptCount} rows and these columns:
+| ID | Concept | Chapter | Dependencies | Taxonomy | Bloom's Level |
+
+Column rules:`;
+  const depsRule =
+    format === 'json'
+      ? 'array of IDs of prerequisite concepts (empty array if none)'
+      : 'comma-separated IDs of prerequisite concepts (empty cell if none)';
+
+  return `${intro}
+- ${id}: sequential integer starting at 1
+- ${name}: precise name of the concept (2–6 words, noun phrase)
+- ${chapter}: integer 1–${chapters} indicating where this concept is taught
+- ${deps}: ${depsRule}. Only reference lower-numbered IDs.
+- ${taxonomy}: exactly one of: Foundation | Core | Advanced
+  - Foundation = vocabulary, definitions, basic facts (Chapters 1–${Math.ceil(chapters / 3)})
+  - Core = processes, relationships, applications (Chapters ${Math.ceil(chapters / 3) + 1}–${Math.ceil((chapters * 2) / 3)})
+  - Advanced = synthesis, evaluation, design (Chapters ${Math.ceil((chapters * 2) / 3) + 1}–${chapters})
+- ${bloom}: exactly one of: ${BLOOM_LEVELS.join(' | ')}`;
+}
+
+/**
+ * Ask for concepts as structured output. A structured-output failure — a
+ * provider without tool/JSON-schema support, malformed JSON, no valid items —
+ * yields an empty list so the caller falls back to the table format; any other
+ * error (auth, exhausted retries, a cassette miss) is rethrown.
+ */
+async function requestConcepts(ctx: PipelineContext, prompt: string): Promise<Concept[]> {
+  try {
+    const data = await generateStructured(prompt, {
+      schema: CONCEPT_SCHEMA,
+      system: SYSTEM,
+      model: ctx.config.model,
+      maxTokens: 16384,
+      provider: ctx.provider,
+    });
+    return parseConceptJson(data);
+  } catch (error) {
+    if (isStructuredOutputFailure(error)) return [];
+    throw error;
+  }
+}
+
+/**
+ * When the model returns fewer concepts than configured (usually from running
+ * out of output tokens), ask for the missing ones through the structured path.
+ */
+async function topUpConcepts(
+  ctx: PipelineContext,
+  concepts: Concept[],
+  title: string,
+  chapterContext: string
+): Promise<Concept[]> {
+  const { concepts: target, chapters } = ctx.config;
+  let result = concepts;
+
+  for (let attempt = 0; attempt < 3 && result.length > 0 && result.length < target; attempt++) {
+    const maxId = Math.max(...result.map(c => c.id));
+    const missing = target - result.length;
+    const existing = result.map(c => `${c.id}. ${c.name} (Chapter ${c.chapter})`).join('\n');
+
+    const prompt = `Extend the learning graph for the intelligent textbook "${title}" with ${missing} more concepts, IDs ${maxId + 1} through ${maxId + missing}.
+
+Chapters:
+${chapterContext}
+
+Existing concepts (do not repeat them):
+${existing}
+
+${fieldRules('json', missing, chapters)}
+
+Dependencies may reference the existing concepts above or new concepts with lower IDs.
+Prioritize chapters that have fewer than 3 concepts so far. Record the new concepts with the ${CONCEPT_SCHEMA.name} tool.`;
+
+    const added = (await requestConcepts(ctx, prompt)).filter(c => c.id > maxId);
+    if (added.length === 0) break;
+    result = [...result, ...added.slice(0, missing)];
+  }
+
+  return result;
+}
+
+/**
+ * Validate structured output against the Concept type. Accepts `{ concepts: [...] }`
+ * or a bare array; items without a positive integer ID or a name are dropped.
+ */
+export function parseConceptJson(data: unknown): Concept[] {
+  const items = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { concepts?: unknown })?.concepts)
+      ? (data as { concepts: unknown[] }).concepts
+      : [];
+  const concepts: Concept[] = [];
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const o = item as Record<string, unknown>;
+
+    const id = Number(o.id);
+    const name = typeof o.name === 'string' ? o.name.trim() : '';
+    if (!Number.isInteger(id) || id < 1 || !name) continue;
+
+    const dependencies = (Array.isArray(o.dependencies) ? o.dependencies : [])
+      .map(Number)
+      .filter(n => Number.isInteger(n) && n > 0 && n !== id);
+
+    concepts.push({
+      id,
+      name,
+      chapter: Number.isInteger(Number(o.chapter)) ? Number(o.chapter) : 1,
+      dependencies: [...new Set(dependencies)],
+      taxonomy: normalizeTaxonomy(String(o.taxonomy ?? '')),
+      bloomLevel: normalizeBloom(String(o.bloomLevel ?? '')),
+    });
+  }
+
+  return concepts;
+}
+
+interface ValidationReport {
+  issues: GraphIssue[];
+  reprompted: boolean;
+  repairs: string[];
 }
 
-function parseConceptTable(raw: string): Concept[] {
+/**
+ * Validate the parsed graph; on violations, optionally ask the model to fix its
+ * own table, then repair whatever is left so the result is always a valid DAG.
+ */
+async function validateAndRepair(
+  ctx: PipelineContext,
+  parsed: Concept[]
+): Promise<{ concepts: Concept[]; report: ValidationReport }> {
+  const { chapters, model, graphRepair } = ctx.config;
+  let concepts = parsed;
+  const issues = validateLearningGraph(concepts, chapters);
+  const report: ValidationReport = { issues, reprompted: false, repairs: [] };
+
+  if (issues.length === 0) return { concepts, report };
+
+  if (graphRepair === 'reprompt') {
+    const fixed = await generate(buildRepairPrompt(concepts, issues, chapters), {
+      system: SYSTEM,
+      model,
+      maxTokens: 8192,
+      provider: ctx.provider,
+    });
+    const candidate = parseConceptTable(fixed);
+    // Only accept the rewrite if it kept (nearly) all concepts and is actually better
+    if (candidate.length >= concepts.length * 0.9 && validateLearningGraph(candidate, chapters).length < issues.length) {
+      concepts = candidate;
+      report.reprompted = true;
+    }
+  }
+
+  if (validateLearningGraph(concepts, chapters).length > 0) {
+    const repaired = repairLearningGraph(concepts, chapters);
+    concepts = repaired.concepts;
+    report.repairs = repaired.actions;
+  }
+
+  const remaining = validateLearningGraph(concepts, chapters);
+  if (remaining.length > 0) {
+    throw new Error(`Learning graph repair failed: ${remaining[0].message}`);
+  }
+  return { concepts, report };
+}
+
+function buildRepairPrompt(concepts: Concept[], issues: GraphIssue[], chapters: number): string {
+  const listed = issues.slice(0, 100).map(i => `- ${i.message}`).join('\n');
+  const more = issues.length > 100 ? `\n- …and ${issues.length - 100} more` : '';
+
+  return `The following learning graph table violates its structural rules.
+
+${buildConceptTable(concepts)}
+
+Violations:
+${listed}${more}
+
+Rules the corrected table must satisfy:
+- IDs are unique and run sequentially from 1 with no gaps
+- Chapter is an integer 1–${chapters}
+- Dependencies only reference existing, lower-numbered IDs
+- No concept depends on a concept taught in a later chapter
+- No dependency cycles
+
+Return the complete corrected table with the same columns, keeping every concept and changing as little as possible.
+Output ONLY the markdown table — no preamble, no explanation, no trailing text`;
+}
+
+export function parseConceptTable(raw: string): Concept[] {
   const lines = raw.split('\n').filter(l => l.includes('|'));
   const concepts: Concept[] = [];
 
   for (const line of lines) {
-    const cells = line.split('|').map(c => c.trim()).filter(Boolean);
+    // Keep empty cells (e.g. no dependencies) so columns stay aligned
+    const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(c => c.trim());
     if (cells.length < 6) continue;
 
     // Skip header and separator rows
@@ -110,10 +353,19 @@ function normalizeBloom(raw: string): string {
   return raw.trim();
 }
 
-function buildConceptMapMd(title: string, rawTable: string, concepts: Concept[]): string {
-  // Extract just the table lines
-  const tableLines = rawTable.split('\n').filter(l => l.includes('|'));
-  const cleanTable = tableLines.join('\n');
+function buildConceptTable(concepts: Concept[]): string {
+  const rows = concepts.map(
+    c => `| ${c.id} | ${c.name.replace(/\|/g, '/')} | ${c.chapter} | ${c.dependencies.join(', ')} | ${c.taxonomy} | ${c.bloomLevel} |`
+  );
+  return [
+    "| ID | Concept | Chapter | Dependencies | Taxonomy | Bloom's Level |",
+    '|----|---------|---------|--------------|----------|---------------|',
+    ...rows,
+  ].join('\n');
+}
+
+function buildConceptMapMd(title: string, concepts: Concept[]): string {
+  const cleanTable = buildConceptTable(concepts);
 
   return `# Concept Map: ${title}
 
@@ -134,10 +386,110 @@ ${cleanTable}
 | **Dependencies** | IDs of concepts that must be understood first |
 | **Taxonomy** | Foundation = foundational vocab/facts; Core = processes/applications; Advanced = synthesis/evaluation |
 | **Bloom's Level** | Cognitive level required: Remember → Understand → Apply → Analyze → Evaluate → Create |
+
+## Downloads
+
+| File | Format |
+|------|--------|
+| [learning-graph.json](learning-graph.json) | vis-network nodes and edges, grouped by taxonomy |
+| [learning-graph.csv](learning-graph.csv) | ConceptID, ConceptLabel, Dependencies (pipe-separated), TaxonomyID |
+| [learning-graph.graphml](learning-graph.graphml) | GraphML for Gephi, yEd, Cytoscape and NetworkX |
 `;
 }
 
-function buildDependencyGraphMd(title: string, concepts: Concept[], chapters: number): string {
+function buildGraphViewerMd(title: string, concepts: Concept[]): string {
+  // MkDocs serves this page at learning-graph/graph-viewer/, so the raw iframe
+  // src needs "../"; the markdown link below is rewritten by MkDocs itself.
+  return `# Knowledge Graph Viewer: ${title}
+
+Explore all ${concepts.length} concepts and their prerequisite relationships.
+Click a concept to highlight everything it depends on (blue) and everything that builds on it (orange).
+
+<div class="graph-container">
+  <iframe src="../graph-viewer.html" width="100%" height="100%" frameborder="0" title="Knowledge graph of ${title.replace(/"/g, '&quot;')}"></iframe>
+</div>
+
+!!! tip "Using the Viewer"
+    - **Search** highlights matching concepts and centres the view on the first match
+    - **Colour by** switches node colours between taxonomy level and chapter
+    - **Chapter checkboxes** show or hide each chapter's concepts
+    - **Drag** to pan and **scroll** to zoom; **Reset view** fits the whole graph again
+
+[Open in full screen](graph-viewer.html){ .md-button .md-button--primary }
+`;
+}
+
+function buildLearningPathsMd(title: string, concepts: Concept[], chapterTitles: string[]): string {
+  const chapterName = (n: number) => `Chapter ${n}${chapterTitles[n - 1] ? `: ${chapterTitles[n - 1]}` : ''}`;
+  const targets = concepts.filter(c => c.taxonomy === 'Advanced');
+
+  const sections = targets.map(target => {
+    const { prerequisites, chapters } = findLearningPath(concepts, target.id);
+    const chapterList = chapters.map(n => `[${n}](../chapters/chapter-${String(n).padStart(2, '0')}.md)`).join(', ');
+    const steps = prerequisites.length > 0
+      ? prerequisites.map((c, i) => `    ${i + 1}. **${c.name}** (ID ${c.id}, Chapter ${c.chapter})`).join('\n')
+      : '    No prerequisites — this concept can be studied directly.';
+
+    return `### ${target.id}. ${target.name}
+
+*${chapterName(target.chapter)} · ${target.bloomLevel}*
+
+**Chapters to read:** ${chapterList}
+
+??? abstract "${prerequisites.length} prerequisite concept(s), in reading order"
+${steps}`;
+  });
+
+  return `# Learning Paths: ${title}
+
+A learning path lists every concept you need before tackling a target concept: its prerequisites,
+their prerequisites, and so on, in the order they are taught.
+Below are suggested paths to each of the ${targets.length} Advanced concepts in this book.
+
+!!! tip "Plan a path to any concept"
+    Run \`create-intelligent-textbook path "<concept name or ID>" -o <book dir>\` to get the path to any concept,
+    or explore prerequisites interactively in the [Graph Viewer](graph-viewer.md).
+
+${sections.length > 0 ? sections.join('\n\n') : '*This learning graph has no Advanced concepts.*'}
+`;
+}
+
+function buildValidationSection(concepts: Concept[], chapters: number, report: ValidationReport): string {
+  const guarantee = `This graph is a validated directed acyclic graph: ${concepts.length} concepts with unique IDs 1–${concepts.length}, ` +
+    `every concept assigned to a chapter between 1 and ${chapters}, and every dependency pointing to an existing, ` +
+    `lower-numbered concept taught in the same or an earlier chapter. There are no cycles.`;
+
+  if (report.issues.length === 0) {
+    return `${guarantee}\n\nThe generated graph passed all checks without changes.`;
+  }
+
+  const counts = countIssues(report.issues)
+    .map(([kind, n]) => `| ${kind} | ${n} |`)
+    .join('\n');
+  const fixedBy = [
+    report.reprompted ? 'the model was re-prompted with the violations' : '',
+    report.repairs.length > 0 ? `${report.repairs.length} automatic repair(s) were applied` : '',
+  ].filter(Boolean).join(', then ');
+  const repairs = report.repairs.length > 0
+    ? `\n\n??? info "Automatic repairs (${report.repairs.length})"\n${report.repairs.map(r => `    - ${r}`).join('\n')}`
+    : '';
+
+  return `${guarantee}
+
+The generated graph had ${report.issues.length} violation(s); ${fixedBy || 'they were resolved'}.
+
+| Violation | Count |
+|-----------|-------|
+${counts}${repairs}`;
+}
+
+function buildDependencyGraphMd(
+  title: string,
+  concepts: Concept[],
+  chapters: number,
+  chapterTitles: string[],
+  report: ValidationReport
+): string {
   const total = concepts.length;
   const byTaxonomy = {
     Foundation: concepts.filter(c => c.taxonomy === 'Foundation').length,
@@ -149,8 +501,7 @@ function buildDependencyGraphMd(title: string, concepts: Concept[], chapters: nu
     byBloom[c.bloomLevel] = (byBloom[c.bloomLevel] ?? 0) + 1;
   }
 
-  const bloomLevels = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
-  const bloomRows = bloomLevels.map(l => `| ${l} | ${byBloom[l] ?? 0} |`).join('\n');
+  const bloomRows = BLOOM_LEVELS.map(l => `| ${l} | ${byBloom[l] ?? 0} |`).join('\n');
 
   const chapterRows = Array.from({ length: chapters }, (_, i) => {
     const n = i + 1;
@@ -160,17 +511,13 @@ function buildDependencyGraphMd(title: string, concepts: Concept[], chapters: nu
     return `| Chapter ${n} | ${count} | ${withDeps} |`;
   }).join('\n');
 
-  // Build a mermaid subgraph for the first chapter's concepts as a sample
-  const sampleConcepts = concepts.slice(0, Math.min(10, concepts.length));
-  const mermaidNodes = sampleConcepts
-    .map(c => `  ${c.id}["${c.id}. ${c.name}"]`)
-    .join('\n');
-  const mermaidEdges = sampleConcepts
-    .flatMap(c => c.dependencies
-      .filter(depId => sampleConcepts.find(s => s.id === depId))
-      .map(depId => `  ${depId} --> ${c.id}`)
-    )
-    .join('\n');
+  const chapterDiagrams = buildChapterDiagrams(concepts, chapters)
+    .map(d => {
+      const heading = `Chapter ${d.chapter}${chapterTitles[d.chapter - 1] ? `: ${chapterTitles[d.chapter - 1]}` : ''}`;
+      const part = d.parts > 1 ? ` (part ${d.part} of ${d.parts})` : '';
+      return `### ${heading}${part}\n\n\`\`\`mermaid\n${d.mermaid}\n\`\`\``;
+    })
+    .join('\n\n');
 
   return `# Dependency Graph: ${title}
 
@@ -198,26 +545,36 @@ ${bloomRows}
 |---------|---------------|-------------------|
 ${chapterRows}
 
-## Sample Dependency Diagram
+## Chapter Dependencies
 
-The following diagram shows the dependency relationships among the first ${sampleConcepts.length} concepts:
+Each arrow shows that concepts in one chapter build on concepts from another; the label is the number of prerequisite links.
 
 \`\`\`mermaid
-graph TD
-${mermaidNodes}
-${mermaidEdges}
+${buildChapterSummaryDiagram(concepts, chapters, chapterTitles)}
 \`\`\`
 
+## Dependency Diagrams by Chapter
+
+Every concept appears in the diagram for the chapter that teaches it.
+Chapters with more than ${DIAGRAM_LIMITS.maxNodes} concepts are split into parts.
+
 !!! note "Reading the Graph"
-    Each box is a concept. Arrows indicate prerequisite relationships.
+    Each box is a concept. Solid arrows link prerequisites within the chapter.
+    Grey boxes with dashed arrows are prerequisites taught in other chapters (or earlier parts of the same chapter).
     Concepts without incoming arrows are entry points — no prior knowledge of the subject is required.
 
+${chapterDiagrams}
+
+## Graph Validation
+
+${buildValidationSection(concepts, chapters, report)}
+
 ## Dependency Statistics
 
 - **Total concepts with at least one dependency:** ${concepts.filter(c => c.dependencies.length > 0).length}
 - **Entry-point concepts (no dependencies):** ${concepts.filter(c => c.dependencies.length === 0).length}
 - **Average dependencies per concept:** ${(concepts.reduce((sum, c) => sum + c.dependencies.length, 0) / Math.max(total, 1)).toFixed(1)}
 
-See the [Concept Map](concept-map.md) for the full table, or [Book Metrics](book-metrics.md) for overall statistics.
+See the [Concept Map](concept-map.md) for the full table, the [Graph Viewer](graph-viewer.md) to explore it interactively, or [Book Metrics](book-metrics.md) for overall statistics.
 `;
 }
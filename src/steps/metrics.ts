@@ -1,61 +1,82 @@
 import { mkdir, writeFile, readFile, readdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import type { PipelineContext } from '../types.js';
+import { formatCost, type UsageSummary } from '../usage.js';
+import { analyzeMarkdown, wordTarget, CHAPTER_WORDS, type ContentStats, type WordTarget } from '../chapter/analyze.js';
+import { parseGlossary } from '../glossary/parse.js';
+import { loadQuizzes } from '../quiz/load.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-async function countWordsInFile(filePath: string): Promise<number> {
-  try {
-    const content = await readFile(filePath, 'utf8');
-    // Strip markdown syntax for a rough word count
-    const stripped = content
-      .replace(/```[\s\S]*?```/g, '')   // code blocks
-      .replace(/`[^`]+`/g, '')           // inline code
-      .replace(/#{1,6}\s/g, '')          // headings
-      .replace(/[*_~[\]()#>|]/g, '')     // markdown symbols
-      .replace(/https?:\/\/\S+/g, '')    // URLs
-      .replace(/\s+/g, ' ')
-      .trim();
-    return stripped ? stripped.split(' ').length : 0;
-  } catch {
-    return 0;
-  }
+interface ChapterMetrics extends ContentStats {
+  chapter: number;
+  title: string;
+  file: string;
+  concepts: number | null;
+  wordTarget: WordTarget;
 }
 
-async function countWordsInDir(dir: string, glob = '*.md'): Promise<number> {
+async function readOptional(filePath: string): Promise<string> {
   try {
-    const entries = await readdir(dir);
-    const mdFiles = entries.filter(f => f.endsWith('.md'));
-    const counts = await Promise.all(
-      mdFiles.map(f => countWordsInFile(join(dir, f))),
-    );
-    return counts.reduce((a, b) => a + b, 0);
+    return await readFile(filePath, 'utf8');
   } catch {
-    return 0;
+    return '';
   }
 }
 
-async function countFilesInDir(dir: string, ext = '.md'): Promise<number> {
+async function listDir(dir: string): Promise<string[]> {
   try {
-    const entries = await readdir(dir);
-    return entries.filter(f => f.endsWith(ext)).length;
+    return (await readdir(dir)).sort();
   } catch {
-    return 0;
+    return [];
   }
 }
 
-async function countPatternInFile(
-  filePath: string,
-  pattern: RegExp,
-): Promise<number> {
-  try {
-    const content = await readFile(filePath, 'utf8');
-    return (content.match(pattern) ?? []).length;
-  } catch {
-    return 0;
+async function measureChapters(ctx: PipelineContext, chaptersDir: string): Promise<ChapterMetrics[]> {
+  const files = (await listDir(chaptersDir)).filter(f => /^chapter-\d+\.md$/.test(f));
+  return Promise.all(
+    files.map(async file => {
+      const content = await readOptional(join(chaptersDir, file));
+      const number = Number(file.match(/\d+/)![0]);
+      const outline = ctx.chapters?.find(ch => ch.number === number);
+      const heading = content.match(/^#\s+(?:Chapter\s+\d+:\s*)?(.+)$/m)?.[1].trim();
+      const stats = analyzeMarkdown(content);
+      return {
+        chapter: number,
+        title: outline?.title ?? heading ?? `Chapter ${number}`,
+        file: `chapters/${file}`,
+        concepts: outline?.concepts.length ?? null,
+        ...stats,
+        wordTarget: wordTarget(stats.words),
+      };
+    }),
+  );
+}
+
+const TARGET_LABELS: Record<WordTarget, string> = {
+  below: '⚠️ Below target',
+  within: '✅ Within target',
+  above: '⚠️ Above target',
+};
+
+function buildCostSection(summary: UsageSummary | undefined): string {
+  if (!summary || summary.total.calls === 0) {
+    return 'No LLM usage was recorded for this run.';
   }
+
+  const row = (r: UsageSummary['total']) =>
+    `| ${r.step} | ${r.calls} | ${r.inputTokens.toLocaleString()} | ${r.outputTokens.toLocaleString()} | ${formatCost(r.costUsd)} |`;
+  const rows = summary.steps.filter(r => r.calls > 0).map(row);
+  const t = summary.total;
+
+  return [
+    '| Step | Calls | Input Tokens | Output Tokens | Estimated Cost |',
+    '|------|-------|--------------|---------------|----------------|',
+    ...rows,
+    `| **Total** | **${t.calls}** | **${t.inputTokens.toLocaleString()}** | **${t.outputTokens.toLocaleString()}** | **${formatCost(t.costUsd)}** |`,
+  ].join('\n');
 }
 
 // ---------------------------------------------------------------------------
@@ -66,64 +87,60 @@ export default async function generateMetrics(ctx: PipelineContext): Promise<voi
   const docsDir = join(ctx.outputDir, 'docs');
   const chaptersDir = join(docsDir, 'chapters');
   const microsimDir = join(docsDir, 'microsims');
-  const quizzesDir = join(docsDir, 'quizzes');
   const graphDir = join(docsDir, 'learning-graph');
+  const title = ctx.courseDescription?.title ?? ctx.config.topic;
 
-  // --- Chapter count ---
-  const chapterCount =
-    ctx.chapters?.length ??
-    ctx.courseDescription?.topics.length ??
-    ctx.config.chapters;
-
-  // --- Actual files on disk ---
-  const chapterFiles = await countFilesInDir(chaptersDir);
-  const microsimFiles = await countFilesInDir(microsimDir);
-  const quizFiles = await countFilesInDir(quizzesDir);
-
-  // --- Word count (approximate) ---
-  const chapterWords = await countWordsInDir(chaptersDir);
-  const otherFiles = [
-    join(docsDir, 'course-description.md'),
-    join(docsDir, 'glossary.md'),
-    join(docsDir, 'faq.md'),
-    join(docsDir, 'references.md'),
-    join(docsDir, 'index.md'),
-    join(docsDir, 'about.md'),
-  ];
-  const otherWordCounts = await Promise.all(otherFiles.map(countWordsInFile));
-  const totalWords = chapterWords + otherWordCounts.reduce((a, b) => a + b, 0);
-
-  // --- Concept count ---
-  const conceptCount = ctx.concepts?.length ?? ctx.config.concepts;
+  // --- Chapters, parsed one by one ---
+  const chapters = await measureChapters(ctx, chaptersDir);
+  const sum = (key: keyof ContentStats) => chapters.reduce((total, ch) => total + ch[key], 0);
 
-  // --- Glossary term count ---
-  const glossaryTerms = await countPatternInFile(
-    join(docsDir, 'glossary.md'),
-    /^##\s+/gm,
+  // --- Word count across chapters and the other content pages ---
+  const otherPages = ['course-description.md', 'glossary.md', 'faq.md', 'references.md', 'index.md', 'about.md'];
+  const otherWords = await Promise.all(
+    otherPages.map(async page => analyzeMarkdown(await readOptional(join(docsDir, page))).words),
   );
+  const totalWords = sum('words') + otherWords.reduce((a, b) => a + b, 0);
 
-  // --- Quiz question count (8 per chapter by design) ---
-  const quizQuestions = quizFiles * 8;
-
-  // --- FAQ question count ---
-  const faqQuestions = await countPatternInFile(
-    join(docsDir, 'faq.md'),
-    /^\?\?\?\s+question/gm,
-  );
+  // --- Parsed glossary entries, quiz questions and FAQ items ---
+  const glossaryTerms = parseGlossary(await readOptional(join(docsDir, 'glossary.md'))).entries.length;
+  const quizzes = await loadQuizzes(ctx.outputDir);
+  const quizQuestions = quizzes.reduce((total, q) => total + q.questions.length, 0);
+  const faqQuestions = (await readOptional(join(docsDir, 'faq.md'))).match(/^\?\?\?\+?\s+question\b/gm)?.length ?? 0;
 
-  // --- MicroSim count ---
-  const microsimCount = microsimFiles || ctx.config.microsims;
+  // --- MicroSims, one HTML file each ---
+  const microsims = (await listDir(microsimDir)).filter(f => /^microsim-\d+\.html$/.test(f)).length;
 
+  const conceptCount = ctx.concepts?.length ?? ctx.config.concepts;
+  const usage = ctx.usage?.summary();
   const now = new Date().toISOString().split('T')[0];
 
+  const totals = {
+    chapters: chapters.length,
+    words: totalWords,
+    chapterWords: sum('words'),
+    concepts: conceptCount,
+    microsims,
+    glossaryTerms,
+    quizzes: quizzes.length,
+    quizQuestions,
+    faqQuestions,
+    mermaidDiagrams: sum('mermaidDiagrams'),
+    tables: sum('tables'),
+    admonitions: sum('admonitions'),
+    chaptersWithinWordTarget: chapters.filter(ch => ch.wordTarget === 'within').length,
+  };
+
   const tableRows = [
-    ['Chapters', String(chapterFiles || chapterCount)],
-    ['Estimated Total Words', totalWords.toLocaleString()],
-    ['Concepts Mapped', String(conceptCount)],
-    ['MicroSims', String(microsimCount)],
-    ['Glossary Terms', String(glossaryTerms)],
-    ['Quiz Questions', String(quizQuestions)],
-    ['FAQ Questions', String(faqQuestions || '40–60')],
+    ['Chapters', String(totals.chapters)],
+    ['Total Words', totals.words.toLocaleString()],
+    ['Concepts Mapped', String(totals.concepts)],
+    ['MicroSims', String(totals.microsims)],
+    ['Glossary Terms', String(totals.glossaryTerms)],
+    ['Quiz Questions', String(totals.quizQuestions)],
+    ['FAQ Questions', String(totals.faqQuestions)],
+    ['Mermaid Diagrams', String(totals.mermaidDiagrams)],
+    ['Tables', String(totals.tables)],
+    ['Admonitions', String(totals.admonitions)],
   ];
 
   const tableMarkdown = [
@@ -132,37 +149,49 @@ export default async function generateMetrics(ctx: PipelineContext): Promise<voi
     ...tableRows.map(([k, v]) => `| ${k} | ${v} |`),
   ].join('\n');
 
+  const chapterRows = chapters.map(ch =>
+    `| ${ch.chapter} | ${ch.title} | ${ch.concepts ?? '—'} | ${ch.words.toLocaleString()} | ${TARGET_LABELS[ch.wordTarget]} | ${ch.mermaidDiagrams} | ${ch.tables} | ${ch.admonitions} |`,
+  );
+
   const content = `# Book Metrics
 
 *Generated on ${now}*
 
 This page tracks the scope and coverage of the textbook as generated.
+The same figures are available as [book-metrics.json](book-metrics.json).
 
 ## Summary Table
 
 ${tableMarkdown}
 
+## Chapter Content
+
+Each chapter targets ${CHAPTER_WORDS.min.toLocaleString()}–${CHAPTER_WORDS.max.toLocaleString()} words; ${totals.chaptersWithinWordTarget} of ${totals.chapters} are within that range.
+
+| Chapter | Title | Concepts | Words | Word Target | Mermaid Diagrams | Tables | Admonitions |
+|---------|-------|----------|-------|-------------|------------------|--------|-------------|
+${chapterRows.join('\n') || '| — | No chapter files were found | — | — | — | — | — | — |'}
+
 ## Notes
 
-- **Word count** is approximate — it excludes code blocks, URLs, and markdown syntax.
-- **Glossary terms** are counted as level-2 headings (\`## Term\`) in \`glossary.md\`.
-- **Quiz questions** assumes 8 questions per chapter (distributed across Bloom's Taxonomy levels).
+- **Word count** covers prose only — it excludes code blocks, Mermaid diagrams, URLs, HTML and markdown syntax.
+- **Glossary terms** are the term definitions parsed from \`glossary.md\`.
+- **Quiz questions** are the questions parsed from each chapter quiz.
 - **FAQ questions** are counted as \`??? question\` admonitions in \`faq.md\`.
-- **MicroSims** are standalone interactive simulations, one per chapter by default.
-
-## Chapter Coverage
-
-| Chapter | Title | Concepts |
-|---------|-------|----------|
-${(ctx.chapters ?? [])
-  .map(
-    ch =>
-      `| ${ch.number} | ${ch.title} | ${ch.concepts?.length ?? '—'} |`,
-  )
-  .join('\n') || '| — | Content was generated without chapter outline data | — |'}
+- **MicroSims** are counted by their standalone HTML files.
+- **Tables** are markdown tables with a header separator row; **admonitions** are \`!!!\` and \`???\` blocks.
+
+## Generation Cost
+
+${buildCostSection(usage)}
+
+- **Cost** is estimated from token counts and a per-model price table (USD per million tokens); \`—\` means the model has no price entry.
+- Totals cover the steps run up to this page; the README step runs afterwards and is reported only in the CLI summary.
 `;
 
-  const graphDir2 = join(docsDir, 'learning-graph');
-  await mkdir(graphDir2, { recursive: true });
-  await writeFile(join(graphDir2, 'book-metrics.md'), content, 'utf8');
+  const metrics = { title, generated: now, totals, chapters, cost: usage?.total.calls ? usage : null };
+
+  await mkdir(graphDir, { recursive: true });
+  await writeFile(join(graphDir, 'book-metrics.md'), content, 'utf8');
+  await writeFile(join(graphDir, 'book-metrics.json'), JSON.stringify(metrics, null, 2), 'utf8');
 }
@@ -1,68 +1,255 @@
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { generateParallel } from '../claude.js';
-import type { PipelineContext, Concept } from '../types.js';
+import { generate } from '../claude.js';
+import type { PipelineContext, Concept, SimEngine } from '../types.js';
+import { validateMicroSim } from '../microsim/validate.js';
+import { chooseEngine, ENGINES, SIM_ENGINES } from '../microsim/engines.js';
+import { useLocalLibrary, vendorLibraries } from '../microsim/vendor.js';
+import { extractControls, loadSimMetadata, metadataFile, type MicroSimMetadata } from '../microsim/metadata.js';
+import { buildSimGalleryHtml } from '../microsim/gallery.js';
 
 const SYSTEM = `You are an expert educational simulation developer and data visualization engineer.
-You build self-contained, interactive HTML simulations using Chart.js from CDN.
+You build self-contained, interactive HTML simulations using Chart.js, p5.js, vis-network or plain SVG — whichever the brief asks for.
 Your simulations are pedagogically purposeful — each one illuminates a specific concept through interaction.
-You write clean, well-commented JavaScript. Every control has a clear label. Every chart updates in real time.`;
+You write clean, well-commented JavaScript. Every control has a clear label. Every visualization updates in real time.`;
+
+const MAX_SIM_ATTEMPTS = 3;
+
+interface SimValidation {
+  number: number;
+  name: string;
+  chapter: number;
+  engine: SimEngine;
+  attempts: number;
+  passed: boolean;
+  errors: string[];
+}
 
 export default async function generateMicroSims(ctx: PipelineContext): Promise<void> {
-  const { topic, microsims: simCount, model } = ctx.config;
+  const { topic, microsims: simCount } = ctx.config;
   const title = ctx.courseDescription?.title ?? topic;
   const concepts = ctx.concepts ?? [];
   const chapters = ctx.chapters ?? [];
 
-  const simTopics = selectSimTopics(simCount, concepts, chapters, topic);
-
-  // Build prompts for all sims in parallel
-  const prompts = simTopics.map(sim => ({
-    prompt: buildSimPrompt(sim, title, topic),
-    system: SYSTEM,
-  }));
+  const simTopics = selectSimTopics(simCount, concepts, chapters, topic, ctx.config.simEngines ?? SIM_ENGINES);
 
-  const results = await generateParallel(prompts, { model, maxTokens: 8192 });
+  const results = await Promise.all(simTopics.map((sim, i) => generateSim(ctx, sim, i + 1, title)));
 
   // Write files following the mkdocs nav convention:
-  //   docs/microsims/microsim-NN.md     — MkDocs wrapper page
-  //   docs/microsims/microsim-NN.html   — raw HTML sim file
+  //   docs/microsims/microsim-NN.md              — MkDocs wrapper page
+  //   docs/microsims/microsim-NN.html            — raw HTML sim file
+  //   docs/microsims/microsim-NN.metadata.json   — Dublin Core-style metadata
   const simsDir = join(ctx.outputDir, 'docs', 'microsims');
   await mkdir(simsDir, { recursive: true });
+  if (ctx.config.offlineMicrosims) await vendorLibraries(simsDir, simTopics.map(s => s.engine));
 
-  await Promise.all(
-    simTopics.map(async (sim, i) => {
-      const paddedNum = String(i + 1).padStart(2, '0');
-      const htmlContent = extractHtml(results[i] ?? '');
+  const metadata = await Promise.all(
+    simTopics.map((sim, i) => writeSim(ctx, simsDir, sim, i + 1, results[i].html, title))
+  );
 
-      // Write the raw HTML simulation
-      const htmlFilename = `microsim-${paddedNum}.html`;
-      await writeFile(join(simsDir, htmlFilename), htmlContent, 'utf8');
+  // Write the gallery and index pages and, next to them, the validation report
+  await writeSimsIndex(simsDir, title, metadata, Boolean(ctx.config.offlineMicrosims));
+  await writeValidationReport(simsDir, results.map(r => r.validation), Boolean(ctx.config.offlineMicrosims));
+}
 
-      // Write the MkDocs markdown wrapper (iframe embed)
-      const wrapperMd = buildSimWrapper(sim.name, sim.description, paddedNum);
-      await writeFile(join(simsDir, `microsim-${paddedNum}.md`), wrapperMd, 'utf8');
-    })
-  );
+/**
+ * Regenerate a single MicroSim by its 1-based number. Topic selection is
+ * deterministic, so the sim is rebuilt for the same concept as before.
+ */
+export async function regenerateMicroSim(ctx: PipelineContext, simNumber: number): Promise<void> {
+  const { topic, microsims: simCount } = ctx.config;
+  const title = ctx.courseDescription?.title ?? topic;
 
-  // Write the sims overview index page
-  const indexMd = buildSimsIndex(title, simTopics, simCount);
-  await writeFile(join(simsDir, 'index.md'), indexMd, 'utf8');
+  const simTopics = selectSimTopics(simCount, ctx.concepts ?? [], ctx.chapters ?? [], topic, ctx.config.simEngines ?? SIM_ENGINES);
+  const sim = simTopics[simNumber - 1];
+  if (!sim) {
+    throw new Error(`MicroSim ${simNumber} does not exist (this book has ${simTopics.length}).`);
+  }
+
+  const { html, validation } = await generateSim(ctx, sim, simNumber, title);
+
+  const simsDir = join(ctx.outputDir, 'docs', 'microsims');
+  await mkdir(simsDir, { recursive: true });
+  if (ctx.config.offlineMicrosims) await vendorLibraries(simsDir, [sim.engine]);
+  await writeSim(ctx, simsDir, sim, simNumber, html, title);
+  await writeSimsIndex(simsDir, title, await loadSimMetadata(simsDir), Boolean(ctx.config.offlineMicrosims));
+  await writeValidationReport(simsDir, [validation], Boolean(ctx.config.offlineMicrosims));
+}
+
+/**
+ * Generate a sim and validate it in jsdom, regenerating with the errors in the
+ * prompt until it passes. The version with the fewest errors is kept when the
+ * attempts run out.
+ */
+async function generateSim(
+  ctx: PipelineContext,
+  sim: SimTopic,
+  simNumber: number,
+  title: string
+): Promise<{ html: string; validation: SimValidation }> {
+  const offline = Boolean(ctx.config.offlineMicrosims);
+  const prompt = buildSimPrompt(sim, title, ctx.config.topic, offline);
+  let best: { html: string; errors: string[] } | undefined;
+  let feedback = '';
+  let attempts = 0;
+  const stubbed = ENGINES[sim.engine].library ? ` with ${ENGINES[sim.engine].label} stubbed` : '';
+
+  while (attempts < MAX_SIM_ATTEMPTS) {
+    attempts++;
+    const raw = await generate(prompt + feedback, { system: SYSTEM, model: ctx.config.model, maxTokens: 8192, provider: ctx.provider });
+    const html = offline ? useLocalLibrary(extractHtml(raw), sim.engine) : extractHtml(raw);
+    const errors = await validateMicroSim(html, { engine: sim.engine, offline });
+    if (!best || errors.length < best.errors.length) best = { html, errors };
+    if (errors.length === 0) break;
+
+    feedback = `\n\nA previous version of this simulation failed automated checks (loaded in a headless DOM${stubbed}) — fix every one of these problems:\n${errors.map(e => `- ${e}`).join('\n')}`;
+  }
+
+  return {
+    html: best!.html,
+    validation: {
+      number: simNumber,
+      name: sim.name,
+      chapter: sim.chapter,
+      engine: sim.engine,
+      attempts,
+      passed: best!.errors.length === 0,
+      errors: best!.errors,
+    },
+  };
+}
+
+/**
+ * Write the MicroSim validation report next to the sims index. Results for
+ * sims that were not generated in this run are kept.
+ */
+async function writeValidationReport(simsDir: string, results: SimValidation[], offline: boolean): Promise<void> {
+  const jsonPath = join(simsDir, 'validation-report.json');
+
+  let previous: SimValidation[] = [];
+  try {
+    previous = (JSON.parse(await readFile(jsonPath, 'utf8')) as { sims: SimValidation[] }).sims;
+  } catch {
+    // No earlier report
+  }
+  const updated = new Set(results.map(r => r.number));
+  const sims = [...previous.filter(r => !updated.has(r.number)), ...results].sort((a, b) => a.number - b.number);
+
+  await writeFile(jsonPath, JSON.stringify({ sims }, null, 2), 'utf8');
+  await writeFile(join(simsDir, 'validation-report.md'), buildValidationReportMd(sims, offline), 'utf8');
+}
+
+function buildValidationReportMd(sims: SimValidation[], offline: boolean): string {
+  const passed = sims.filter(s => s.passed).length;
+  const rows = sims.map(s => {
+    // Reports written before sims had engines were all Chart.js
+    const paddedNum = String(s.number).padStart(2, '0');
+    return `| [MicroSim ${s.number}: ${s.name}](microsim-${paddedNum}.md) | Chapter ${s.chapter} | ${ENGINES[s.engine ?? 'chartjs'].label} | ${s.passed ? '✅ Pass' : '❌ Fail'} | ${s.attempts} |`;
+  });
+  const failures = sims
+    .filter(s => !s.passed)
+    .map(s => `### MicroSim ${s.number}: ${s.name}\n\n${s.errors.map(e => `- ${e}`).join('\n')}`);
+
+  return `# MicroSim Validation Report
+
+Each MicroSim is loaded offline in a headless DOM (jsdom) with its engine's library (Chart.js, p5.js or vis-network) replaced by a stub, and checked that:
+
+- the document parses and is complete (\`<!DOCTYPE html>\` … \`</html>\`)
+- it loads its engine's library${offline ? ' from the bundled copy in `lib/`, and no remote URLs' : ''}
+- its scripts run without throwing or looping forever through \`DOMContentLoaded\` and when each input changes
+- it has 2–4 labelled inputs, each wired to an \`input\` event listener
+- it draws with its engine: a Chart on a \`<canvas>\`, a p5.js sketch in instance mode that creates its canvas, a \`vis.Network\` in a container on the page, or an \`<svg>\` with shapes
+
+Sims that fail are regenerated with the errors added to the prompt, up to ${MAX_SIM_ATTEMPTS} attempts.
+
+**${passed} of ${sims.length} MicroSims pass.**
+
+| Simulation | Chapter | Engine | Result | Attempts |
+|------------|---------|--------|--------|----------|
+${rows.join('\n')}
+${failures.length > 0 ? `\n## Remaining Problems\n\n${failures.join('\n\n')}\n` : ''}`;
+}
+
+async function writeSim(
+  ctx: PipelineContext,
+  simsDir: string,
+  sim: SimTopic,
+  simNumber: number,
+  htmlContent: string,
+  title: string
+): Promise<MicroSimMetadata> {
+  const paddedNum = String(simNumber).padStart(2, '0');
+
+  // Write the raw HTML simulation
+  const htmlFilename = `microsim-${paddedNum}.html`;
+  await writeFile(join(simsDir, htmlFilename), htmlContent, 'utf8');
+
+  // Write the MkDocs markdown wrapper (iframe embed)
+  const wrapperMd = buildSimWrapper(sim.name, sim.description, paddedNum);
+  await writeFile(join(simsDir, `microsim-${paddedNum}.md`), wrapperMd, 'utf8');
+
+  // Write the metadata sidecar the gallery is built from
+  const metadata = buildSimMetadata(ctx, sim, simNumber, htmlContent, title);
+  await writeFile(join(simsDir, metadataFile(simNumber)), JSON.stringify(metadata, null, 2), 'utf8');
+  return metadata;
+}
+
+function buildSimMetadata(
+  ctx: PipelineContext,
+  sim: SimTopic,
+  simNumber: number,
+  htmlContent: string,
+  title: string
+): MicroSimMetadata {
+  const paddedNum = String(simNumber).padStart(2, '0');
+  return {
+    identifier: `microsim-${paddedNum}`,
+    title: sim.name,
+    description: sim.description,
+    subject: [ctx.config.topic, sim.conceptName],
+    isPartOf: title,
+    conceptId: sim.conceptId,
+    concept: sim.conceptName,
+    chapter: sim.chapter,
+    chapterTitle: ctx.chapters?.find(c => c.number === sim.chapter)?.title,
+    bloomLevel: sim.bloomLevel,
+    engine: sim.engine,
+    library: ENGINES[sim.engine].label,
+    controls: extractControls(htmlContent),
+    page: `microsim-${paddedNum}.md`,
+    file: `microsim-${paddedNum}.html`,
+    type: 'InteractiveResource',
+    format: 'text/html',
+    language: 'en',
+    date: new Date().toISOString().split('T')[0],
+    creator: 'create-intelligent-textbook',
+    contributor: ctx.config.model,
+  };
+}
+
+async function writeSimsIndex(simsDir: string, title: string, sims: MicroSimMetadata[], offline: boolean): Promise<void> {
+  await writeFile(join(simsDir, 'gallery.html'), buildSimGalleryHtml(title, sims), 'utf8');
+  await writeFile(join(simsDir, 'index.md'), buildSimsIndex(title, sims, offline), 'utf8');
 }
 
 interface SimTopic {
   name: string;
   description: string;
   conceptName: string;
+  conceptId: number;
   chapter: number;
-  chartType: string;
+  bloomLevel: string;
+  engine: SimEngine;
+  /** Chart.js chart type; only set for Chart.js sims. */
+  chartType?: string;
 }
 
 function selectSimTopics(
   count: number,
   concepts: Concept[],
   chapters: { number: number; title: string }[],
-  topic: string
+  topic: string,
+  engines: SimEngine[]
 ): SimTopic[] {
   const chartTypes = ['bar', 'line', 'scatter', 'radar', 'doughnut', 'bubble'];
 
@@ -99,51 +286,71 @@ function selectSimTopics(
     });
   }
 
-  return selected.slice(0, count).map((c, i) => ({
-    name: `${c.name} Explorer`,
-    description: `An interactive simulation for exploring ${c.name} in the context of ${topic}.`,
-    conceptName: c.name,
-    chapter: c.chapter,
-    chartType: chartTypes[i % chartTypes.length],
-  }));
+  // Each concept gets the engine that suits it; chart types rotate across the Chart.js sims
+  let charts = 0;
+  return selected.slice(0, count).map(c => {
+    const engine = chooseEngine(c, engines);
+    return {
+      name: `${c.name} Explorer`,
+      description: `An interactive simulation for exploring ${c.name} in the context of ${topic}.`,
+      conceptName: c.name,
+      conceptId: c.id,
+      chapter: c.chapter,
+      bloomLevel: c.bloomLevel,
+      engine,
+      chartType: engine === 'chartjs' ? chartTypes[charts++ % chartTypes.length] : undefined,
+    };
+  });
 }
 
-function buildSimPrompt(sim: SimTopic, textbookTitle: string, topic: string): string {
+function buildSimPrompt(sim: SimTopic, textbookTitle: string, topic: string, offline: boolean): string {
+  const engine = ENGINES[sim.engine];
+  const { library } = engine;
+  const librarySource = !library
+    ? 'Uses no external libraries — inline SVG and vanilla JavaScript only'
+    : offline
+      ? `Uses the copy of ${engine.label} bundled with the site: \`${library.local}\` (a relative path — the page must work offline, so no CDN, web fonts or other remote URLs)`
+      : `Uses ${engine.label} loaded from CDN: \`${library.cdn}\``;
+  const libraryScript = library ? `\n  <script src="${offline ? library.local : library.cdn}"></script>` : '';
+  const technical = [
+    librarySource,
+    'All CSS and JavaScript are inline (no external files)',
+    'Works in a modern browser with no build step',
+    'Responsive layout that works in an iframe at 800x600px',
+    ...engine.requirements,
+  ];
+
   return `Create a complete, self-contained interactive HTML MicroSim for the intelligent textbook "${textbookTitle}".
 
 ## Simulation: ${sim.name}
 
 **Concept Being Illustrated:** ${sim.conceptName}
 **Domain:** ${topic}
-**Primary Chart Type:** ${sim.chartType} (use Chart.js)
-
+**Rendering Engine:** ${engine.label} (best for ${engine.bestFor})
+${sim.chartType ? `**Primary Chart Type:** ${sim.chartType}\n` : ''}
 ---
 
 Write a complete, standalone HTML file that:
 
 ### Technical Requirements:
-1. Uses Chart.js loaded from CDN: \`https://cdn.jsdelivr.net/npm/chart.js\`
-2. All CSS and JavaScript are inline (no external files)
-3. Works in a modern browser with no build step
-4. Responsive layout that works in an iframe at 800x600px
+${technical.map((r, i) => `${i + 1}. ${r}`).join('\n')}
 
 ### Educational Requirements:
 1. Illustrates the concept "${sim.conceptName}" through interactive exploration
 2. Has 2–4 slider inputs or number inputs that change parameters
-3. Chart updates in real time as the user adjusts inputs (use an \`input\` event listener, not \`change\`)
+3. The visualization updates in real time as the user adjusts inputs (use an \`input\` event listener, not \`change\`)
 4. Each input has a clear label showing its current value (update label dynamically)
 5. A brief explanation panel (2–3 sentences) explaining what the simulation demonstrates
 
 ### Design Requirements:
 1. Clean, professional look with a white or light gray (#f8f9fa) background
 2. Clear section headers in a readable font (use system fonts: font-family: system-ui, sans-serif)
-3. Input controls grouped together in a panel, chart displayed prominently
-4. Meaningful axis labels and chart title
+3. Input controls grouped together in a panel, visualization displayed prominently
+4. Meaningful labels and a title on the visualization
 5. An educational color scheme appropriate for a professional textbook
 
 ### JavaScript Standards:
-- Declare the Chart instance outside the update function
-- Destroy and recreate the chart on updates, OR use \`chart.data\` mutation + \`chart.update()\`
+${engine.scripting.map(r => `- ${r}`).join('\n')}
 - Add a \`DOMContentLoaded\` listener to initialize
 - Comment key functions
 
@@ -154,14 +361,13 @@ Write a complete, standalone HTML file that:
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${sim.name}</title>
-  <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
+  <title>${sim.name}</title>${libraryScript}
   <style>/* inline CSS */</style>
 </head>
 <body>
   <!-- Title and description -->
   <!-- Input controls panel -->
-  <!-- Chart canvas -->
+  ${engine.surface}
   <!-- Explanation panel -->
   <script>/* inline JS */</script>
 </body>
@@ -194,13 +400,14 @@ function extractHtml(raw: string): string {
 
 function buildSimWrapper(name: string, description: string, paddedNum: string): string {
   const htmlFile = `microsim-${paddedNum}.html`;
+  // MkDocs serves microsim-NN.md at microsims/microsim-NN/, so the raw iframe src needs "../"
   return `# ${name}
 
 ${description}
 
 <div style="width:100%;max-width:900px;margin:0 auto;">
   <iframe
-    src="${htmlFile}"
+    src="../${htmlFile}"
     width="100%"
     height="640"
     frameborder="0"
@@ -212,56 +419,78 @@ ${description}
 
 !!! tip "How to Use This Simulation"
     Adjust the sliders and input controls to change parameters.
-    The chart updates in real time so you can observe how the concept responds to different values.
+    The visualization updates in real time so you can observe how the concept responds to different values.
     Experiment freely — there are no wrong answers.
 
 [Open in full screen](${htmlFile}){ .md-button .md-button--primary }
 `;
 }
 
-function buildSimsIndex(
-  title: string,
-  sims: SimTopic[],
-  count: number
-): string {
-  const rows = sims
-    .map((s, i) => {
-      const paddedNum = String(i + 1).padStart(2, '0');
-      return `| [MicroSim ${i + 1}: ${s.name}](microsim-${paddedNum}.md) | Chapter ${s.chapter} | ${s.description} |`;
-    })
+function buildSimsIndex(title: string, sims: MicroSimMetadata[], offline: boolean): string {
+  const links = sims
+    .map((s, i) => `- [MicroSim ${i + 1}: ${s.title}](${s.page}) — Chapter ${s.chapter} · ${s.bloomLevel} · ${s.library}`)
     .join('\n');
 
-  const links = sims
-    .map((s, i) => {
-      const paddedNum = String(i + 1).padStart(2, '0');
-      return `- [MicroSim ${i + 1}: ${s.name}](microsim-${paddedNum}.md) — Chapter ${s.chapter}`;
+  const engines = SIM_ENGINES.filter(e => sims.some(s => s.engine === e))
+    .map(e => {
+      const { label, library, bestFor } = ENGINES[e];
+      const source = !library
+        ? 'inline, no library needed'
+        : offline
+          ? 'bundled with the site in `microsims/lib/`, so every simulation works offline'
+          : 'loaded from CDN, no installation required';
+      return `- **${label}** — for ${bestFor}; ${source}`;
     })
     .join('\n');
 
+  // index.md is served at microsims/ itself, so the iframe src needs no "../"
   return `# Interactive MicroSims: ${title}
 
 MicroSims are self-contained interactive simulations that let you explore key concepts hands-on.
 Each simulation responds to your inputs in real time, making abstract ideas concrete and explorable.
 
-## Available Simulations (${count} total)
+## Gallery (${sims.length} simulations)
 
-| Simulation | Chapter | Description |
-|------------|---------|-------------|
-${rows}
+Filter the gallery by chapter, Bloom's level or library, or search by concept and control name.
+
+<div style="width:100%;margin:0 auto;">
+  <iframe
+    src="gallery.html"
+    width="100%"
+    height="720"
+    frameborder="0"
+    style="border:1px solid #e0e0e0;border-radius:4px;display:block;"
+    title="MicroSim gallery for ${title.replace(/"/g, '&quot;')}">
+  </iframe>
+</div>
+
+[Open the gallery in full screen](gallery.html){ .md-button .md-button--primary }
 
 ## How MicroSims Work
 
-Each MicroSim is built with:
+Each MicroSim is drawn with the engine that best fits its concept:
+
+${engines}
+
+Every simulation also has:
 
-- **Chart.js** — loaded from CDN, no installation required
 - **Real-time parameter controls** — sliders and inputs that immediately update the visualization
 - **Embedded explanations** — text panels connecting the visual to the underlying concept
 
 MicroSims are designed to complement the chapter content. Use them while reading to test your understanding,
 or return to them during review.
 
+Every simulation is checked automatically before publishing; see the [validation report](validation-report.md).
+
+## Reusing MicroSims
+
+Next to each simulation is a \`microsim-NN.metadata.json\` file with Dublin Core-style fields — title, description,
+subject, concept ID, chapter, Bloom's level, library, controls, date and creator — so simulations can be
+catalogued and reused in other books. The gallery above is built from these files.
+
 ## All Simulations
 
 ${links}
 `;
 }
+
@@ -75,6 +75,7 @@ theme:
     - content.tabs.link
     - content.code.copy
     - content.code.annotate
+    - content.tooltips
     - toc.integrate
 
 extra_css:
@@ -102,6 +103,7 @@ markdown_extensions:
       emoji_index: !!python/name:material.extensions.emoji.twemoji
       emoji_generator: !!python/name:material.extensions.emoji.to_svg
   - attr_list
+  - def_list
   - md_in_html
   - tables
   - toc:
@@ -120,12 +122,17 @@ ${chapterNav(chapterList)}
   - Glossary: glossary.md
   - MicroSims:
 ${microsimNav(microsimCount)}
+    - Validation Report: microsims/validation-report.md
   - Quizzes:
 ${quizNav(chapterList)}
+    - Quiz Report: quizzes/quiz-report.md
   - Knowledge Graph:
     - Concept Map: learning-graph/concept-map.md
     - Dependencies: learning-graph/dependency-graph.md
+    - Graph Viewer: learning-graph/graph-viewer.md
+    - Learning Paths: learning-graph/learning-paths.md
     - Metrics: learning-graph/book-metrics.md
+    - Chapter Quality: learning-graph/chapter-quality.md
   - FAQ: faq.md
   - References: references.md
   - About: about.md
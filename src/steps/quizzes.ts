@@ -1,12 +1,26 @@
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { generateParallel } from '../claude.js';
-import type { PipelineContext } from '../types.js';
+import { generate } from '../claude.js';
+import type { PipelineContext, Quiz } from '../types.js';
+import { parseQuizMarkdown, renderQuizMarkdown } from '../quiz/parse.js';
+import { validateQuiz } from '../quiz/validate.js';
+import { balanceAnswers } from '../quiz/balance.js';
+import { buildQuizWidgetHtml } from '../quiz/widget.js';
 
 const SYSTEM = `You are an expert assessment designer with deep knowledge of Bloom's Taxonomy.
 You write multiple-choice questions that test genuine understanding, not surface recall.
 Your distractors are plausible — they reflect real misconceptions, not obvious wrong answers.`;
 
+const MAX_QUIZ_ATTEMPTS = 3;
+
+interface QuizValidation {
+  chapter: number;
+  title: string;
+  attempts: number;
+  passed: boolean;
+  issues: string[];
+}
+
 function buildQuizPrompt(
   chapterNumber: number,
   chapterTitle: string,
@@ -36,6 +50,8 @@ Requirements:
 - Each question has exactly 4 options labeled A, B, C, D.
 - One correct answer per question.
 - Distractors should reflect genuine misconceptions, not obviously wrong answers.
+- The 4 options of a question must all be different.
+- Options will be reordered after generation, so explanations should refer to options by their content rather than their letter.
 
 Format each question EXACTLY like this (use this collapsible admonition pattern):
 
@@ -51,7 +67,7 @@ Format each question EXACTLY like this (use this collapsible admonition pattern)
 ??? success "Answer"
     **Correct answer: B**
 
-    Explanation: Write 2–3 sentences explaining why B is correct and why the other options are wrong.
+    Explanation: Write 2–3 sentences explaining why the correct option is right and why the others are wrong.
 
 ---
 
@@ -61,48 +77,168 @@ Add one sentence describing what this quiz covers before the first question.
 Output only valid markdown — no code fences around the document, no preamble.`;
 }
 
-export default async function generateQuizzes(ctx: PipelineContext): Promise<void> {
-  const { topic, model } = ctx.config;
+function buildChapterList(ctx: PipelineContext): { number: number; title: string }[] {
   const chapters = ctx.chapters ?? [];
-  const concepts = ctx.concepts ?? [];
-
-  // Build concept name lookup by chapter
-  const conceptsByChapter = new Map<number, string[]>();
-  for (const concept of concepts) {
-    const list = conceptsByChapter.get(concept.chapter) ?? [];
-    list.push(concept.name);
-    conceptsByChapter.set(concept.chapter, list);
-  }
 
   // Fall back: if no chapter outlines yet, generate one quiz per configured chapter count
-  const chapterList =
-    chapters.length > 0
-      ? chapters.map(ch => ({ number: ch.number, title: ch.title }))
-      : Array.from({ length: ctx.config.chapters }, (_, i) => ({
-          number: i + 1,
-          title: ctx.courseDescription?.topics[i] ?? `Chapter ${i + 1}`,
-        }));
-
-  const prompts = chapterList.map(ch => ({
-    prompt: buildQuizPrompt(
-      ch.number,
-      ch.title,
-      topic,
-      conceptsByChapter.get(ch.number) ?? [],
-    ),
+  return chapters.length > 0
+    ? chapters.map(ch => ({ number: ch.number, title: ch.title }))
+    : Array.from({ length: ctx.config.chapters }, (_, i) => ({
+        number: i + 1,
+        title: ctx.courseDescription?.topics[i] ?? `Chapter ${i + 1}`,
+      }));
+}
+
+function buildPromptFor(ctx: PipelineContext, ch: { number: number; title: string }): { prompt: string; system: string } {
+  const chapterConcepts = (ctx.concepts ?? [])
+    .filter(c => c.chapter === ch.number)
+    .map(c => c.name);
+
+  return {
+    prompt: buildQuizPrompt(ch.number, ch.title, ctx.config.topic, chapterConcepts),
     system: SYSTEM,
-  }));
+  };
+}
+
+/**
+ * Generate, parse and validate one chapter's quiz, re-prompting with the
+ * problems found until it is well formed, then balance the answer key. The
+ * attempt with the fewest problems is kept when the attempts run out.
+ */
+async function generateQuiz(
+  ctx: PipelineContext,
+  ch: { number: number; title: string }
+): Promise<{ quiz: Quiz; validation: QuizValidation }> {
+  const { prompt, system } = buildPromptFor(ctx, ch);
+  let best: { quiz: Quiz; issues: string[] } | undefined;
+  let feedback = '';
+  let attempts = 0;
+
+  while (attempts < MAX_QUIZ_ATTEMPTS) {
+    attempts++;
+    const raw = await generate(prompt + feedback, { system, model: ctx.config.model, maxTokens: 4096, provider: ctx.provider });
+    const quiz = parseQuizMarkdown(raw, ch.number);
+    const issues = validateQuiz(quiz);
+    if (!best || issues.length < best.issues.length) best = { quiz, issues };
+    if (issues.length === 0) break;
+
+    feedback = `\n\nA previous attempt was rejected because of these problems — make sure none of them recur:\n${issues.map(i => `- ${i}`).join('\n')}`;
+  }
+
+  return {
+    quiz: balanceAnswers(best!.quiz),
+    validation: {
+      chapter: ch.number,
+      title: ch.title,
+      attempts,
+      passed: best!.issues.length === 0,
+      issues: best!.issues,
+    },
+  };
+}
+
+/**
+ * Write the quiz report next to the quizzes. Results for quizzes that were
+ * not generated in this run are kept.
+ */
+async function writeQuizReport(outputDir: string, results: QuizValidation[]): Promise<void> {
+  const quizzesDir = join(outputDir, 'docs', 'quizzes');
+  const jsonPath = join(quizzesDir, 'quiz-report.json');
+
+  let previous: QuizValidation[] = [];
+  try {
+    previous = (JSON.parse(await readFile(jsonPath, 'utf8')) as { quizzes: QuizValidation[] }).quizzes;
+  } catch {
+    // No earlier report
+  }
+  const updated = new Set(results.map(r => r.chapter));
+  const quizzes = [...previous.filter(r => !updated.has(r.chapter)), ...results].sort((a, b) => a.chapter - b.chapter);
+
+  await mkdir(quizzesDir, { recursive: true });
+  await writeFile(jsonPath, JSON.stringify({ quizzes }, null, 2), 'utf8');
+  await writeFile(join(quizzesDir, 'quiz-report.md'), buildQuizReportMd(quizzes), 'utf8');
+}
+
+function buildQuizReportMd(quizzes: QuizValidation[]): string {
+  const passed = quizzes.filter(q => q.passed).length;
+  const rows = quizzes.map(q => {
+    const paddedNum = String(q.chapter).padStart(2, '0');
+    return `| [Chapter ${q.chapter} Quiz](quiz-${paddedNum}.md) | ${q.title} | ${q.passed ? '✅ Pass' : '❌ Fail'} | ${q.attempts} |`;
+  });
+  const failures = quizzes
+    .filter(q => !q.passed)
+    .map(q => `### Chapter ${q.chapter} Quiz: ${q.title}\n\n${q.issues.map(i => `- ${i}`).join('\n')}`);
+
+  return `# Quiz Report
+
+Every quiz is checked for exactly 8 questions, each with question text, a Bloom's level, 4 distinct options
+and an answer key that points at one of them. Malformed quizzes are regenerated with the problems added to
+the prompt, up to ${MAX_QUIZ_ATTEMPTS} attempts; if none passes, the attempt with the fewest problems is published.
+
+**${passed} of ${quizzes.length} quizzes pass.**
+
+| Quiz | Title | Result | Attempts |
+|------|-------|--------|----------|
+${rows.join('\n')}
+${failures.length > 0 ? `\n## Remaining Problems\n\n${failures.join('\n\n')}\n` : ''}`;
+}
 
-  const results = await generateParallel(prompts, { model, maxTokens: 4096 });
+function buildInteractiveQuizMd(quiz: Quiz, htmlFile: string): string {
+  // MkDocs serves quiz-NN.md at quizzes/quiz-NN/, so the raw iframe src needs "../"
+  return `# ${quiz.title}
+
+${quiz.intro ? `${quiz.intro}\n\n` : ''}<div style="width:100%;max-width:900px;margin:0 auto;">
+  <iframe
+    src="../${htmlFile}"
+    width="100%"
+    height="900"
+    frameborder="0"
+    style="border:1px solid #e0e0e0;border-radius:4px;display:block;"
+    title="${quiz.title.replace(/"/g, '&quot;')}">
+  </iframe>
+</div>
+
+!!! tip "How to Use This Quiz"
+    Click an option to answer. You will see right away whether it is correct, with an explanation.
+    Your running score is shown at the top, and a breakdown by Bloom's level appears once every question is answered.
+
+[Open in full screen](${htmlFile}){ .md-button .md-button--primary }
+`;
+}
 
-  const quizzesDir = join(ctx.outputDir, 'docs', 'quizzes');
+async function writeQuiz(outputDir: string, quiz: Quiz, style: 'static' | 'interactive' = 'static'): Promise<void> {
+  const quizzesDir = join(outputDir, 'docs', 'quizzes');
   await mkdir(quizzesDir, { recursive: true });
+  const base = `quiz-${String(quiz.chapter).padStart(2, '0')}`;
+
+  if (style === 'interactive') {
+    await writeFile(join(quizzesDir, `${base}.html`), buildQuizWidgetHtml(quiz), 'utf8');
+    await writeFile(join(quizzesDir, `${base}.md`), buildInteractiveQuizMd(quiz, `${base}.html`), 'utf8');
+  } else {
+    await writeFile(join(quizzesDir, `${base}.md`), renderQuizMarkdown(quiz), 'utf8');
+    // Drop the widget page left by an earlier interactive run
+    await rm(join(quizzesDir, `${base}.html`), { force: true });
+  }
+  // Structured copy for exports and the interactive quiz widget
+  await writeFile(join(quizzesDir, `${base}.json`), JSON.stringify(quiz, null, 2), 'utf8');
+}
+
+export default async function generateQuizzes(ctx: PipelineContext): Promise<void> {
+  const results = await Promise.all(buildChapterList(ctx).map(ch => generateQuiz(ctx, ch)));
+  await Promise.all(results.map(r => writeQuiz(ctx.outputDir, r.quiz, ctx.config.quizStyle)));
+  await writeQuizReport(ctx.outputDir, results.map(r => r.validation));
+}
+
+/**
+ * Regenerate the quiz for a single chapter.
+ */
+export async function regenerateQuiz(ctx: PipelineContext, chapterNumber: number): Promise<void> {
+  const ch = buildChapterList(ctx).find(c => c.number === chapterNumber);
+  if (!ch) {
+    throw new Error(`Chapter ${chapterNumber} not found; cannot regenerate its quiz.`);
+  }
 
-  await Promise.all(
-    results.map((content, index) => {
-      const chapterNum = chapterList[index].number;
-      const filename = `quiz-${String(chapterNum).padStart(2, '0')}.md`;
-      return writeFile(join(quizzesDir, filename), content.trim(), 'utf8');
-    }),
-  );
+  const { quiz, validation } = await generateQuiz(ctx, ch);
+  await writeQuiz(ctx.outputDir, quiz, ctx.config.quizStyle);
+  await writeQuizReport(ctx.outputDir, [validation]);
 }
@@ -91,7 +91,7 @@ Rules:
 - Keep the overview to 3–5 sentences maximum.
 - Output only valid markdown — no code fences around the document, no preamble, no commentary.`;
 
-  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 4096 });
+  const raw = await generate(prompt, { system: SYSTEM, model, maxTokens: 4096, provider: ctx.provider });
 
   await writeFile(join(ctx.outputDir, 'README.md'), raw.trim(), 'utf8');
 }
@@ -1,3 +1,9 @@
+import type { UsageTracker } from './usage.js';
+
+export type ProviderName = 'anthropic' | 'openai' | 'fake';
+
+export type SimEngine = 'chartjs' | 'p5' | 'vis-network' | 'svg';
+
 export interface TextbookConfig {
   topic: string;
   chapters: number;
@@ -7,6 +13,40 @@ export interface TextbookConfig {
   model: string;
   deploy: 'github-pages' | 'none';
   repoName?: string;
+  /** LLM backend; defaults to 'anthropic'. */
+  provider?: ProviderName;
+  /** Base URL for the OpenAI-compatible provider (e.g., http://localhost:11434/v1). */
+  baseUrl?: string;
+  /** Maximum number of LLM requests in flight at once. */
+  concurrency?: number;
+  /** Retries per request on rate-limit, overload, timeout and network errors. */
+  maxRetries?: number;
+  /** Per-request timeout in milliseconds. */
+  requestTimeoutMs?: number;
+  /** Per-model prices (USD per million tokens), merged over the built-in table. */
+  prices?: Record<string, ModelPrice>;
+  /** How to fix learning-graph violations: repair edges automatically, or re-prompt the model first. */
+  graphRepair?: 'auto' | 'reprompt';
+  /** Load MicroSim libraries from bundled copies in docs/microsims/lib/ instead of a CDN. */
+  offlineMicrosims?: boolean;
+  /** Rendering engines MicroSims may use; defaults to all of them. */
+  simEngines?: SimEngine[];
+  /** Extra generation attempts for a chapter that fails the quality gate. */
+  chapterRetries?: number;
+  /** Quiz pages: collapsible answers (static) or an embedded self-scoring widget (interactive). */
+  quizStyle?: 'static' | 'interactive';
+  /** Reuse responses for identical prompts from a local cache. */
+  cache?: boolean;
+  /** Cache location; defaults to <outputDir>/.cache/llm. */
+  cacheDir?: string;
+  /** Save every LLM request/response to this cassette directory. */
+  record?: string;
+  /** Serve LLM responses from this cassette directory instead of calling a model. */
+  replay?: string;
+  /** Skip steps already recorded in the output directory's state file. */
+  resume?: boolean;
+  /** Re-run from this step onward, restoring earlier context from the state file. */
+  fromStep?: string;
 }
 
 export interface CourseDescription {
@@ -35,12 +75,86 @@ export interface ChapterOutline {
   concepts: number[];
 }
 
+export type AnswerLetter = 'A' | 'B' | 'C' | 'D';
+
+export interface QuizQuestion {
+  number: number;
+  bloomLevel: string;
+  question: string;
+  /** Option texts in display order; index 0 is A. */
+  options: string[];
+  answer: AnswerLetter;
+  explanation: string;
+}
+
+export interface Quiz {
+  chapter: number;
+  title: string;
+  intro: string;
+  questions: QuizQuestion[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  /** ID of the learning-graph concept this entry defines, when matched. */
+  conceptId?: number;
+  chapter?: number;
+  taxonomy?: string;
+  definition: string;
+}
+
 export interface PipelineContext {
   config: TextbookConfig;
   courseDescription?: CourseDescription;
   concepts?: Concept[];
   chapters?: ChapterOutline[];
   outputDir: string;
+  provider?: LLMProvider;
+  usage?: UsageTracker;
+}
+
+/**
+ * Request structured output: providers force a tool call (Anthropic) or a
+ * JSON-schema response format (OpenAI-compatible) and return the JSON as text.
+ */
+export interface OutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  system: string;
+  model: string;
+  maxTokens: number;
+  schema?: OutputSchema;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+export interface GenerateResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface CompleteOptions {
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: GenerateRequest, options?: CompleteOptions): Promise<GenerateResponse>;
 }
 
 export interface StepResult {
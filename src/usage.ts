@@ -0,0 +1,129 @@
+import type { ModelPrice, TextbookConfig, TokenUsage } from './types.js';
+
+/**
+ * USD per million tokens. Override or extend with --prices <file>.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-opus-4-0': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4-0': { input: 3, output: 15 },
+  'claude-3-7-sonnet-latest': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+};
+
+export function resolvePrices(config: Pick<TextbookConfig, 'prices'>): Record<string, ModelPrice> {
+  return { ...DEFAULT_PRICES, ...config.prices };
+}
+
+interface ModelTally {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface StepTally {
+  id: string;
+  name: string;
+  models: Record<string, ModelTally>;
+}
+
+export interface UsageSnapshot {
+  steps: StepTally[];
+}
+
+export interface UsageRow {
+  step: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Null when any model used in the step is missing from the price table. */
+  costUsd: number | null;
+}
+
+export interface UsageSummary {
+  steps: UsageRow[];
+  total: UsageRow;
+}
+
+/**
+ * Prices are matched exactly first, then by the longest table key that
+ * prefixes the model name, so dated snapshots like claude-sonnet-4-5-20250929 resolve.
+ */
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter(k => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+/**
+ * Accumulates token usage per pipeline step and model.
+ */
+export class UsageTracker {
+  private steps: StepTally[];
+  private current: StepTally | null = null;
+
+  constructor(
+    private readonly prices: Record<string, ModelPrice> = DEFAULT_PRICES,
+    snapshot?: UsageSnapshot
+  ) {
+    this.steps = snapshot?.steps.map(s => ({ ...s, models: { ...s.models } })) ?? [];
+  }
+
+  /** Start attributing calls to a step, discarding anything from an earlier run of it. */
+  startStep(id: string, name: string): void {
+    this.steps = this.steps.filter(s => s.id !== id);
+    this.current = { id, name, models: {} };
+    this.steps.push(this.current);
+  }
+
+  record(model: string, usage: TokenUsage | undefined): void {
+    if (!this.current) this.startStep('other', 'Other');
+    const tally = (this.current!.models[model] ??= { calls: 0, inputTokens: 0, outputTokens: 0 });
+    tally.calls++;
+    tally.inputTokens += usage?.inputTokens ?? 0;
+    tally.outputTokens += usage?.outputTokens ?? 0;
+  }
+
+  summary(order: string[] = []): UsageSummary {
+    const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+    const steps = [...this.steps]
+      .sort((a, b) => rank(a.id) - rank(b.id))
+      .map(s => this.row(s.name, s.models));
+
+    const total: UsageRow = { step: 'Total', calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    for (const row of steps) {
+      total.calls += row.calls;
+      total.inputTokens += row.inputTokens;
+      total.outputTokens += row.outputTokens;
+      total.costUsd = total.costUsd === null || row.costUsd === null ? null : total.costUsd + row.costUsd;
+    }
+    return { steps, total };
+  }
+
+  toJSON(): UsageSnapshot {
+    return { steps: this.steps };
+  }
+
+  private row(step: string, models: Record<string, ModelTally>): UsageRow {
+    const row: UsageRow = { step, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    for (const [model, t] of Object.entries(models)) {
+      row.calls += t.calls;
+      row.inputTokens += t.inputTokens;
+      row.outputTokens += t.outputTokens;
+      const price = priceFor(model, this.prices);
+      row.costUsd =
+        row.costUsd === null || price === null
+          ? null
+          : row.costUsd + (t.inputTokens * price.input + t.outputTokens * price.output) / 1_000_000;
+    }
+    return row;
+  }
+}
+
+export function formatCost(costUsd: number | null): string {
+  return costUsd === null ? '—' : `$${costUsd.toFixed(2)}`;
+}